@@ -0,0 +1,211 @@
+import React, { useCallback, useEffect, forwardRef, useImperativeHandle } from 'react';
+import type { AutocompleteInputProps } from '../types';
+import { useAutocomplete } from '../hooks/useAutocomplete';
+import { useAutocompleteContext } from '../hooks/AutocompleteContext';
+import { useFieldRequestOptions, useSuggestionField } from '../hooks/useSuggestionField';
+import { SuggestionOverlays } from './SuggestionOverlays';
+
+export interface AutocompleteInputRef {
+  focus: () => void;
+  blur: () => void;
+  select: () => void;
+  getInput: () => HTMLInputElement | null;
+}
+
+const defaultStyles: { [key: string]: React.CSSProperties } = {
+  container: {
+    position: 'relative',
+    width: '100%',
+  },
+  wrapper: {
+    position: 'relative',
+    display: 'inline-block',
+    width: '100%',
+  },
+  input: {
+    display: 'block',
+    width: '100%',
+    boxSizing: 'border-box',
+  },
+  ghostOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    display: 'flex',
+    alignItems: 'center',
+    pointerEvents: 'none',
+    overflow: 'hidden',
+    whiteSpace: 'pre',
+    boxSizing: 'border-box',
+  },
+  ghostText: {
+    opacity: 0.5,
+    color: '#666',
+  },
+  loadingIndicator: {
+    position: 'absolute',
+    top: 'calc(50% - 8px)',
+    right: '8px',
+    width: '12px',
+    height: '12px',
+    border: '2px solid #e0e0e0',
+    borderTopColor: '#3498db',
+    borderRadius: '50%',
+    animation: 'autocomplete-spin 1s linear infinite',
+  },
+  candidateIndicator: {
+    position: 'absolute',
+    top: 'calc(50% - 9px)',
+    right: '28px',
+    background: 'rgba(0,0,0,0.6)',
+    color: 'white',
+    padding: '2px 6px',
+    borderRadius: '4px',
+    fontSize: '11px',
+    pointerEvents: 'none',
+  },
+};
+
+// An input holds a single line, so suggestions end at the first line break
+const firstLine = (text: string) => text.split(/\r?\n/)[0];
+
+export const AutocompleteInput = forwardRef<AutocompleteInputRef, AutocompleteInputProps>(
+  function AutocompleteInput(
+    {
+      value,
+      onChange,
+      debounceMs = 300,
+      minCharsForCompletion = 10,
+      acceptKey = 'Tab',
+      dismissKey = 'Escape',
+      showGhostText = true,
+      touchMode = 'auto',
+      completionClassName,
+      acceptWordKey = 'Ctrl+ArrowRight',
+      acceptLineKey = 'Ctrl+ArrowDown',
+      onCompletionAccept,
+      onPartialAccept,
+      onCompletionDismiss,
+      disabled = false,
+      streaming = false,
+      budget,
+      onBudgetExceeded,
+      triggerOnSentenceEnd = true,
+      displayMode = 'ghost',
+      // A list is only useful with several suggestions
+      candidateCount = displayMode === 'popup' ? 3 : 1,
+      nextCandidateKey = 'Alt+]',
+      prevCandidateKey = 'Alt+[',
+      promptTemplate,
+      context,
+      getContext,
+      className,
+      style,
+      ...inputProps
+    },
+    ref
+  ) {
+    const { provider, budget: sharedBudget } = useAutocompleteContext();
+    const requestOptions = useFieldRequestOptions(inputProps, value, context, getContext);
+
+    const { isLoading, ...suggestions } = useAutocomplete(provider, {
+      debounceMs,
+      minCharsForCompletion,
+      triggerOnSentenceEnd,
+      enabled: !disabled,
+      streaming,
+      budget: budget ?? sharedBudget,
+      onBudgetExceeded,
+      candidateCount,
+      promptTemplate,
+      ...requestOptions,
+    });
+
+    const field = useSuggestionField<HTMLInputElement>({
+      value,
+      onChange,
+      source: suggestions,
+      fieldProps: inputProps,
+      displayMode,
+      showGhostText,
+      touchMode,
+      acceptKey,
+      dismissKey,
+      acceptWordKey,
+      acceptLineKey,
+      nextCandidateKey,
+      prevCandidateKey,
+      onCompletionAccept,
+      onPartialAccept,
+      onCompletionDismiss,
+      normalize: firstLine,
+    });
+    const { fieldRef: inputRef, ghostRef } = field;
+
+    // Keep the ghost text aligned when the input scrolls horizontally
+    const syncScroll = useCallback(() => {
+      if (ghostRef.current && inputRef.current) {
+        ghostRef.current.scrollLeft = inputRef.current.scrollLeft;
+      }
+    }, [ghostRef, inputRef]);
+
+    useEffect(() => {
+      syncScroll();
+    }, [value, field.completion, field.cursorPosition, syncScroll]);
+
+    const handleScroll = useCallback(
+      (e: React.UIEvent<HTMLInputElement>) => {
+        syncScroll();
+        inputProps.onScroll?.(e);
+      },
+      [syncScroll, inputProps]
+    );
+
+    useImperativeHandle(ref, () => ({
+      focus: () => inputRef.current?.focus(),
+      blur: () => inputRef.current?.blur(),
+      select: () => inputRef.current?.select(),
+      getInput: () => inputRef.current,
+    }));
+
+    return (
+      <div style={defaultStyles.container}>
+        <div style={defaultStyles.wrapper}>
+          <input
+            type="text"
+            {...inputProps}
+            {...field.fieldHandlers}
+            ref={inputRef}
+            value={value}
+            onScroll={handleScroll}
+            disabled={disabled}
+            className={className}
+            style={{
+              ...defaultStyles.input,
+              ...style,
+              background: field.showGhost ? 'transparent' : undefined,
+            }}
+          />
+          <SuggestionOverlays
+            field={field}
+            value={value}
+            displayMode={displayMode}
+            isLoading={isLoading}
+            completionClassName={completionClassName}
+            acceptKey={acceptKey}
+            dismissKey={dismissKey}
+            acceptWordKey={acceptWordKey}
+            styles={defaultStyles}
+          />
+          {displayMode === 'ghost' && showGhostText && field.candidates.length > 1 && (
+            <div style={defaultStyles.candidateIndicator}>
+              {field.candidateIndex + 1} of {field.candidates.length}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+);
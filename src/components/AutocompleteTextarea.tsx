@@ -1,7 +1,9 @@
-import React, { useRef, useCallback, useEffect, useState, forwardRef, useImperativeHandle } from 'react';
+import React, { forwardRef, useImperativeHandle } from 'react';
 import type { AutocompleteTextareaProps } from '../types';
 import { useAutocomplete } from '../hooks/useAutocomplete';
 import { useAutocompleteContext } from '../hooks/AutocompleteContext';
+import { useFieldRequestOptions, useSuggestionField } from '../hooks/useSuggestionField';
+import { SuggestionOverlays } from './SuggestionOverlays';
 
 export interface AutocompleteTextareaRef {
   focus: () => void;
@@ -52,23 +54,17 @@ const defaultStyles: { [key: string]: React.CSSProperties } = {
     borderRadius: '50%',
     animation: 'autocomplete-spin 1s linear infinite',
   },
-};
-
-// Inject keyframes for the loading spinner
-const injectStyles = () => {
-  if (typeof document === 'undefined') return;
-
-  const styleId = 'autocomplete-textarea-styles';
-  if (document.getElementById(styleId)) return;
-
-  const style = document.createElement('style');
-  style.id = styleId;
-  style.textContent = `
-    @keyframes autocomplete-spin {
-      to { transform: rotate(360deg); }
-    }
-  `;
-  document.head.appendChild(style);
+  candidateIndicator: {
+    position: 'absolute',
+    bottom: '8px',
+    right: '8px',
+    background: 'rgba(0,0,0,0.6)',
+    color: 'white',
+    padding: '2px 6px',
+    borderRadius: '4px',
+    fontSize: '11px',
+    pointerEvents: 'none',
+  },
 };
 
 export const AutocompleteTextarea = forwardRef<AutocompleteTextareaRef, AutocompleteTextareaProps>(
@@ -81,59 +77,67 @@ export const AutocompleteTextarea = forwardRef<AutocompleteTextareaRef, Autocomp
       acceptKey = 'Tab',
       dismissKey = 'Escape',
       showGhostText = true,
+      touchMode = 'auto',
       completionClassName,
+      acceptWordKey = 'Ctrl+ArrowRight',
+      acceptLineKey = 'Ctrl+ArrowDown',
       onCompletionAccept,
+      onPartialAccept,
       onCompletionDismiss,
       disabled = false,
+      streaming = false,
+      budget,
+      onBudgetExceeded,
       triggerOnSentenceEnd = true,
+      displayMode = 'ghost',
+      // A list is only useful with several suggestions
+      candidateCount = displayMode === 'popup' ? 3 : 1,
+      nextCandidateKey = 'Alt+]',
+      prevCandidateKey = 'Alt+[',
+      promptTemplate,
+      context,
+      getContext,
       className,
       style,
       ...textareaProps
     },
     ref
   ) {
-    const textareaRef = useRef<HTMLTextAreaElement>(null);
-    const ghostRef = useRef<HTMLDivElement>(null);
-    const { provider } = useAutocompleteContext();
-
-    const [cursorPosition, setCursorPosition] = useState(0);
-    const [textareaStyles, setTextareaStyles] = useState<React.CSSProperties>({});
+    const { provider, budget: sharedBudget } = useAutocompleteContext();
+    const requestOptions = useFieldRequestOptions(textareaProps, value, context, getContext);
 
-    const {
-      completion,
-      isLoading,
-      acceptCompletion,
-      dismissCompletion,
-      requestCompletion,
-    } = useAutocomplete(provider, {
+    const { isLoading, ...suggestions } = useAutocomplete(provider, {
       debounceMs,
       minCharsForCompletion,
       triggerOnSentenceEnd,
       enabled: !disabled,
+      streaming,
+      budget: budget ?? sharedBudget,
+      onBudgetExceeded,
+      candidateCount,
+      promptTemplate,
+      ...requestOptions,
     });
 
-    // Inject CSS for animations
-    useEffect(() => {
-      injectStyles();
-    }, []);
-
-    // Sync textarea computed styles to ghost overlay
-    useEffect(() => {
-      if (textareaRef.current) {
-        const computed = window.getComputedStyle(textareaRef.current);
-        setTextareaStyles({
-          fontFamily: computed.fontFamily,
-          fontSize: computed.fontSize,
-          fontWeight: computed.fontWeight,
-          lineHeight: computed.lineHeight,
-          letterSpacing: computed.letterSpacing,
-          padding: computed.padding,
-          border: 'transparent',
-          borderWidth: computed.borderWidth,
-          borderStyle: computed.borderStyle,
-        });
-      }
-    }, [value]);
+    const field = useSuggestionField<HTMLTextAreaElement>({
+      value,
+      onChange,
+      source: suggestions,
+      fieldProps: textareaProps,
+      displayMode,
+      showGhostText,
+      touchMode,
+      acceptKey,
+      dismissKey,
+      acceptWordKey,
+      acceptLineKey,
+      nextCandidateKey,
+      prevCandidateKey,
+      onCompletionAccept,
+      onPartialAccept,
+      onCompletionDismiss,
+    });
+    const textareaRef = field.fieldRef;
 
     useImperativeHandle(ref, () => ({
       focus: () => textareaRef.current?.focus(),
@@ -142,128 +146,37 @@ export const AutocompleteTextarea = forwardRef<AutocompleteTextareaRef, Autocomp
       getTextarea: () => textareaRef.current,
     }));
 
-    const handleChange = useCallback(
-      (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-        const newValue = e.target.value;
-        const newCursorPosition = e.target.selectionStart;
-
-        onChange(newValue);
-        setCursorPosition(newCursorPosition);
-
-        // Request completion with new text
-        requestCompletion(newValue, newCursorPosition);
-      },
-      [onChange, requestCompletion]
-    );
-
-    const handleKeyDown = useCallback(
-      (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
-        // Accept completion
-        if (completion && e.key === acceptKey) {
-          e.preventDefault();
-          const acceptedCompletion = acceptCompletion();
-
-          if (acceptedCompletion) {
-            const beforeCursor = value.substring(0, cursorPosition);
-            const afterCursor = value.substring(cursorPosition);
-            const newValue = beforeCursor + acceptedCompletion + afterCursor;
-
-            onChange(newValue);
-
-            // Set cursor after the completion
-            const newCursorPosition = cursorPosition + acceptedCompletion.length;
-            setCursorPosition(newCursorPosition);
-
-            // Set cursor position after React updates
-            setTimeout(() => {
-              if (textareaRef.current) {
-                textareaRef.current.setSelectionRange(newCursorPosition, newCursorPosition);
-              }
-            }, 0);
-
-            onCompletionAccept?.(acceptedCompletion);
-          }
-          return;
-        }
-
-        // Dismiss completion
-        if (completion && e.key === dismissKey) {
-          e.preventDefault();
-          dismissCompletion();
-          onCompletionDismiss?.();
-          return;
-        }
-
-        // Call original onKeyDown if provided
-        textareaProps.onKeyDown?.(e);
-      },
-      [
-        completion,
-        acceptKey,
-        dismissKey,
-        acceptCompletion,
-        dismissCompletion,
-        value,
-        cursorPosition,
-        onChange,
-        onCompletionAccept,
-        onCompletionDismiss,
-        textareaProps,
-      ]
-    );
-
-    const handleSelect = useCallback((e: React.SyntheticEvent<HTMLTextAreaElement>) => {
-      setCursorPosition(e.currentTarget.selectionStart);
-      textareaProps.onSelect?.(e);
-    }, [textareaProps]);
-
-    // Render ghost text overlay
-    const renderGhostOverlay = () => {
-      if (!showGhostText || !completion) return null;
-
-      const beforeCursor = value.substring(0, cursorPosition);
-
-      return (
-        <div
-          ref={ghostRef}
-          style={{
-            ...defaultStyles.ghostOverlay,
-            ...textareaStyles,
-          }}
-          aria-hidden="true"
-        >
-          <span style={{ visibility: 'hidden' }}>{beforeCursor}</span>
-          <span
-            style={defaultStyles.ghostText}
-            className={completionClassName}
-          >
-            {completion}
-          </span>
-        </div>
-      );
-    };
-
     return (
       <div style={defaultStyles.container}>
         <div style={defaultStyles.wrapper}>
           <textarea
             {...textareaProps}
+            {...field.fieldHandlers}
             ref={textareaRef}
             value={value}
-            onChange={handleChange}
-            onKeyDown={handleKeyDown}
-            onSelect={handleSelect}
             disabled={disabled}
             className={className}
             style={{
               ...defaultStyles.textarea,
               ...style,
-              background: showGhostText && completion ? 'transparent' : undefined,
+              background: field.showGhost ? 'transparent' : undefined,
             }}
           />
-          {renderGhostOverlay()}
-          {isLoading && (
-            <div style={defaultStyles.loadingIndicator} aria-label="Loading completion" />
+          <SuggestionOverlays
+            field={field}
+            value={value}
+            displayMode={displayMode}
+            isLoading={isLoading}
+            completionClassName={completionClassName}
+            acceptKey={acceptKey}
+            dismissKey={dismissKey}
+            acceptWordKey={acceptWordKey}
+            styles={defaultStyles}
+          />
+          {displayMode === 'ghost' && showGhostText && field.candidates.length > 1 && (
+            <div style={defaultStyles.candidateIndicator}>
+              {field.candidateIndex + 1} of {field.candidates.length}
+            </div>
           )}
         </div>
       </div>
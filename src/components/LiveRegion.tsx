@@ -0,0 +1,44 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+export const visuallyHidden: React.CSSProperties = {
+  position: 'absolute',
+  width: '1px',
+  height: '1px',
+  margin: '-1px',
+  padding: 0,
+  border: 0,
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap',
+};
+
+export interface LiveRegionProps {
+  message: string;
+  /** Minimum time between announcements (ms); later messages replace pending ones */
+  throttleMs?: number;
+}
+
+/**
+ * Visually hidden polite live region. Rapid message changes, e.g. while a
+ * suggestion streams in, are collapsed so screen readers are not flooded.
+ */
+export function LiveRegion({ message, throttleMs = 1000 }: LiveRegionProps) {
+  const [announced, setAnnounced] = useState('');
+  const lastAnnouncedRef = useRef(0);
+
+  useEffect(() => {
+    const wait = Math.max(0, lastAnnouncedRef.current + throttleMs - Date.now());
+    const timer = setTimeout(() => {
+      lastAnnouncedRef.current = Date.now();
+      setAnnounced(message);
+    }, wait);
+
+    return () => clearTimeout(timer);
+  }, [message, throttleMs]);
+
+  return (
+    <div role="status" aria-live="polite" aria-atomic="true" style={visuallyHidden}>
+      {announced}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import React, { useCallback, useEffect, forwardRef, useImperativeHandle } from 'react';
+import type { AutocompleteInputProps, AutocompleteStats, DebouncedOnlyProps, OptimizedAutocompleteProps } from '../types';
+import { useOptimizedAutocomplete } from '../hooks/useOptimizedAutocomplete';
+import { useAutocompleteContext } from '../hooks/AutocompleteContext';
+import { useFieldRequestOptions, useSuggestionField } from '../hooks/useSuggestionField';
+import { SuggestionOverlays } from './SuggestionOverlays';
+
+export interface OptimizedAutocompleteInputRef {
+  focus: () => void;
+  blur: () => void;
+  select: () => void;
+  getInput: () => HTMLInputElement | null;
+  getStats: () => AutocompleteStats;
+}
+
+interface OptimizedInputProps extends Omit<AutocompleteInputProps, DebouncedOnlyProps>, OptimizedAutocompleteProps {}
+
+const defaultStyles: { [key: string]: React.CSSProperties } = {
+  container: {
+    position: 'relative',
+    width: '100%',
+  },
+  wrapper: {
+    position: 'relative',
+    display: 'inline-block',
+    width: '100%',
+  },
+  input: {
+    display: 'block',
+    width: '100%',
+    boxSizing: 'border-box',
+  },
+  ghostOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    display: 'flex',
+    alignItems: 'center',
+    pointerEvents: 'none',
+    overflow: 'hidden',
+    whiteSpace: 'pre',
+    boxSizing: 'border-box',
+  },
+  ghostText: {
+    opacity: 0.5,
+    color: '#666',
+  },
+  loadingIndicator: {
+    position: 'absolute',
+    top: 'calc(50% - 8px)',
+    right: '8px',
+    width: '12px',
+    height: '12px',
+    border: '2px solid #e0e0e0',
+    borderTopColor: '#3498db',
+    borderRadius: '50%',
+    animation: 'autocomplete-spin 1s linear infinite',
+  },
+  statsOverlay: {
+    position: 'absolute',
+    top: '100%',
+    right: 0,
+    marginTop: '4px',
+    background: 'rgba(0,0,0,0.7)',
+    color: 'white',
+    padding: '4px 8px',
+    borderRadius: '4px',
+    fontSize: '10px',
+    fontFamily: 'monospace',
+    pointerEvents: 'none',
+  },
+};
+
+// An input holds a single line, so suggestions end at the first line break
+const firstLine = (text: string) => text.split(/\r?\n/)[0];
+
+export const OptimizedAutocompleteInput = forwardRef<OptimizedAutocompleteInputRef, OptimizedInputProps>(
+  function OptimizedAutocompleteInput(
+    {
+      value,
+      onChange,
+      pauseThreshold = 600,
+      minChars = 15,
+      cooldown = 1500,
+      triggerAtBreakpoints = true,
+      enableCache = true,
+      cache,
+      acceptKey = 'Tab',
+      dismissKey = 'Escape',
+      showGhostText = true,
+      touchMode = 'auto',
+      showStats = false,
+      completionClassName,
+      acceptWordKey = 'Ctrl+ArrowRight',
+      acceptLineKey = 'Ctrl+ArrowDown',
+      onCompletionAccept,
+      onPartialAccept,
+      onCompletionDismiss,
+      disabled = false,
+      streaming = false,
+      budget,
+      onBudgetExceeded,
+      promptTemplate,
+      context,
+      getContext,
+      className,
+      style,
+      ...inputProps
+    },
+    ref
+  ) {
+    const { provider, budget: sharedBudget, cache: sharedCache } = useAutocompleteContext();
+    const requestOptions = useFieldRequestOptions(inputProps, value, context, getContext);
+
+    const { isLoading, stats, handleTextChange, ...suggestions } = useOptimizedAutocomplete(provider, {
+      pauseThreshold,
+      minChars,
+      cooldown,
+      triggerAtBreakpoints,
+      enableCache,
+      cache: cache ?? sharedCache,
+      fieldId: inputProps.id,
+      enabled: !disabled,
+      streaming,
+      budget: budget ?? sharedBudget,
+      onBudgetExceeded,
+      promptTemplate,
+      ...requestOptions,
+    });
+
+    const field = useSuggestionField<HTMLInputElement>({
+      value,
+      onChange,
+      source: {
+        ...suggestions,
+        candidates: suggestions.completion ? [suggestions.completion] : [],
+        candidateIndex: 0,
+        requestCompletion: handleTextChange,
+      },
+      fieldProps: inputProps,
+      showGhostText,
+      touchMode,
+      acceptKey,
+      dismissKey,
+      acceptWordKey,
+      acceptLineKey,
+      onCompletionAccept,
+      onPartialAccept,
+      onCompletionDismiss,
+      normalize: firstLine,
+    });
+    const { fieldRef: inputRef, ghostRef } = field;
+
+    // Keep the ghost text aligned when the input scrolls horizontally
+    const syncScroll = useCallback(() => {
+      if (ghostRef.current && inputRef.current) {
+        ghostRef.current.scrollLeft = inputRef.current.scrollLeft;
+      }
+    }, [ghostRef, inputRef]);
+
+    useEffect(() => {
+      syncScroll();
+    }, [value, field.completion, field.cursorPosition, syncScroll]);
+
+    const handleScroll = useCallback(
+      (e: React.UIEvent<HTMLInputElement>) => {
+        syncScroll();
+        inputProps.onScroll?.(e);
+      },
+      [syncScroll, inputProps]
+    );
+
+    useImperativeHandle(ref, () => ({
+      focus: () => inputRef.current?.focus(),
+      blur: () => inputRef.current?.blur(),
+      select: () => inputRef.current?.select(),
+      getInput: () => inputRef.current,
+      getStats: () => stats,
+    }));
+
+    return (
+      <div style={defaultStyles.container}>
+        <div style={defaultStyles.wrapper}>
+          <input
+            type="text"
+            {...inputProps}
+            {...field.fieldHandlers}
+            ref={inputRef}
+            value={value}
+            onScroll={handleScroll}
+            disabled={disabled}
+            className={className}
+            style={{
+              ...defaultStyles.input,
+              ...style,
+              background: field.showGhost ? 'transparent' : undefined,
+            }}
+          />
+          <SuggestionOverlays
+            field={field}
+            value={value}
+            isLoading={isLoading}
+            completionClassName={completionClassName}
+            acceptKey={acceptKey}
+            dismissKey={dismissKey}
+            acceptWordKey={acceptWordKey}
+            styles={defaultStyles}
+          />
+          {showStats && (
+            <div style={defaultStyles.statsOverlay}>
+              API: {stats.apiCalls} | Cache: {stats.cacheHits} | Tokens: {stats.tokensUsed}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+);
@@ -1,30 +1,19 @@
-import React, { useRef, useCallback, useEffect, useState, forwardRef, useImperativeHandle } from 'react';
-import type { AutocompleteTextareaProps } from '../types';
+import React, { forwardRef, useImperativeHandle } from 'react';
+import type { AutocompleteStats, AutocompleteTextareaProps, DebouncedOnlyProps, OptimizedAutocompleteProps } from '../types';
 import { useOptimizedAutocomplete } from '../hooks/useOptimizedAutocomplete';
 import { useAutocompleteContext } from '../hooks/AutocompleteContext';
+import { useFieldRequestOptions, useSuggestionField } from '../hooks/useSuggestionField';
+import { SuggestionOverlays } from './SuggestionOverlays';
 
 export interface OptimizedAutocompleteTextareaRef {
   focus: () => void;
   blur: () => void;
   select: () => void;
   getTextarea: () => HTMLTextAreaElement | null;
-  getStats: () => { apiCalls: number; cacheHits: number; tokensUsed: number };
+  getStats: () => AutocompleteStats;
 }
 
-interface OptimizedProps extends Omit<AutocompleteTextareaProps, 'debounceMs' | 'minCharsForCompletion' | 'triggerOnSentenceEnd'> {
-  /** Minimum pause before triggering completion (ms) */
-  pauseThreshold?: number;
-  /** Minimum characters before triggering */
-  minChars?: number;
-  /** Cooldown between API calls (ms) */
-  cooldown?: number;
-  /** Only trigger at natural breakpoints (space, punctuation) */
-  triggerAtBreakpoints?: boolean;
-  /** Enable completion caching */
-  enableCache?: boolean;
-  /** Show stats overlay */
-  showStats?: boolean;
-}
+interface OptimizedProps extends Omit<AutocompleteTextareaProps, DebouncedOnlyProps>, OptimizedAutocompleteProps {}
 
 const defaultStyles: { [key: string]: React.CSSProperties } = {
   container: {
@@ -82,16 +71,6 @@ const defaultStyles: { [key: string]: React.CSSProperties } = {
   },
 };
 
-const injectStyles = () => {
-  if (typeof document === 'undefined') return;
-  const styleId = 'autocomplete-textarea-styles';
-  if (document.getElementById(styleId)) return;
-  const style = document.createElement('style');
-  style.id = styleId;
-  style.textContent = `@keyframes autocomplete-spin { to { transform: rotate(360deg); } }`;
-  document.head.appendChild(style);
-};
-
 export const OptimizedAutocompleteTextarea = forwardRef<OptimizedAutocompleteTextareaRef, OptimizedProps>(
   function OptimizedAutocompleteTextarea(
     {
@@ -102,63 +81,71 @@ export const OptimizedAutocompleteTextarea = forwardRef<OptimizedAutocompleteTex
       cooldown = 1500,
       triggerAtBreakpoints = true,
       enableCache = true,
+      cache,
       acceptKey = 'Tab',
       dismissKey = 'Escape',
       showGhostText = true,
+      touchMode = 'auto',
       showStats = false,
       completionClassName,
+      acceptWordKey = 'Ctrl+ArrowRight',
+      acceptLineKey = 'Ctrl+ArrowDown',
       onCompletionAccept,
+      onPartialAccept,
       onCompletionDismiss,
       disabled = false,
+      streaming = false,
+      budget,
+      onBudgetExceeded,
+      promptTemplate,
+      context,
+      getContext,
       className,
       style,
       ...textareaProps
     },
     ref
   ) {
-    const textareaRef = useRef<HTMLTextAreaElement>(null);
-    const ghostRef = useRef<HTMLDivElement>(null);
-    const { provider } = useAutocompleteContext();
+    const { provider, budget: sharedBudget, cache: sharedCache } = useAutocompleteContext();
+    const requestOptions = useFieldRequestOptions(textareaProps, value, context, getContext);
 
-    const [cursorPosition, setCursorPosition] = useState(0);
-    const [textareaStyles, setTextareaStyles] = useState<React.CSSProperties>({});
-
-    const {
-      completion,
-      isLoading,
-      acceptCompletion,
-      dismissCompletion,
-      handleTextChange,
-      stats,
-    } = useOptimizedAutocomplete(provider, {
+    const { isLoading, stats, handleTextChange, ...suggestions } = useOptimizedAutocomplete(provider, {
       pauseThreshold,
       minChars,
       cooldown,
       triggerAtBreakpoints,
       enableCache,
+      cache: cache ?? sharedCache,
+      fieldId: textareaProps.id,
       enabled: !disabled,
+      streaming,
+      budget: budget ?? sharedBudget,
+      onBudgetExceeded,
+      promptTemplate,
+      ...requestOptions,
     });
 
-    useEffect(() => {
-      injectStyles();
-    }, []);
-
-    useEffect(() => {
-      if (textareaRef.current) {
-        const computed = window.getComputedStyle(textareaRef.current);
-        setTextareaStyles({
-          fontFamily: computed.fontFamily,
-          fontSize: computed.fontSize,
-          fontWeight: computed.fontWeight,
-          lineHeight: computed.lineHeight,
-          letterSpacing: computed.letterSpacing,
-          padding: computed.padding,
-          border: 'transparent',
-          borderWidth: computed.borderWidth,
-          borderStyle: computed.borderStyle,
-        });
-      }
-    }, [value]);
+    const field = useSuggestionField<HTMLTextAreaElement>({
+      value,
+      onChange,
+      source: {
+        ...suggestions,
+        candidates: suggestions.completion ? [suggestions.completion] : [],
+        candidateIndex: 0,
+        requestCompletion: handleTextChange,
+      },
+      fieldProps: textareaProps,
+      showGhostText,
+      touchMode,
+      acceptKey,
+      dismissKey,
+      acceptWordKey,
+      acceptLineKey,
+      onCompletionAccept,
+      onPartialAccept,
+      onCompletionDismiss,
+    });
+    const textareaRef = field.fieldRef;
 
     useImperativeHandle(ref, () => ({
       focus: () => textareaRef.current?.focus(),
@@ -168,114 +155,35 @@ export const OptimizedAutocompleteTextarea = forwardRef<OptimizedAutocompleteTex
       getStats: () => stats,
     }));
 
-    const handleChange = useCallback(
-      (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-        const newValue = e.target.value;
-        const newCursorPosition = e.target.selectionStart;
-
-        onChange(newValue);
-        setCursorPosition(newCursorPosition);
-        handleTextChange(newValue, newCursorPosition);
-      },
-      [onChange, handleTextChange]
-    );
-
-    const handleKeyDown = useCallback(
-      (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
-        if (completion && e.key === acceptKey) {
-          e.preventDefault();
-          const acceptedCompletion = acceptCompletion();
-
-          if (acceptedCompletion) {
-            const beforeCursor = value.substring(0, cursorPosition);
-            const afterCursor = value.substring(cursorPosition);
-            const newValue = beforeCursor + acceptedCompletion + afterCursor;
-
-            onChange(newValue);
-
-            const newCursorPosition = cursorPosition + acceptedCompletion.length;
-            setCursorPosition(newCursorPosition);
-
-            setTimeout(() => {
-              if (textareaRef.current) {
-                textareaRef.current.setSelectionRange(newCursorPosition, newCursorPosition);
-              }
-            }, 0);
-
-            onCompletionAccept?.(acceptedCompletion);
-          }
-          return;
-        }
-
-        if (completion && e.key === dismissKey) {
-          e.preventDefault();
-          dismissCompletion();
-          onCompletionDismiss?.();
-          return;
-        }
-
-        textareaProps.onKeyDown?.(e);
-      },
-      [
-        completion,
-        acceptKey,
-        dismissKey,
-        acceptCompletion,
-        dismissCompletion,
-        value,
-        cursorPosition,
-        onChange,
-        onCompletionAccept,
-        onCompletionDismiss,
-        textareaProps,
-      ]
-    );
-
-    const handleSelect = useCallback(
-      (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
-        setCursorPosition(e.currentTarget.selectionStart);
-        textareaProps.onSelect?.(e);
-      },
-      [textareaProps]
-    );
-
-    const renderGhostOverlay = () => {
-      if (!showGhostText || !completion) return null;
-      const beforeCursor = value.substring(0, cursorPosition);
-
-      return (
-        <div ref={ghostRef} style={{ ...defaultStyles.ghostOverlay, ...textareaStyles }} aria-hidden="true">
-          <span style={{ visibility: 'hidden' }}>{beforeCursor}</span>
-          <span style={defaultStyles.ghostText} className={completionClassName}>
-            {completion}
-          </span>
-        </div>
-      );
-    };
-
     return (
       <div style={defaultStyles.container}>
         <div style={defaultStyles.wrapper}>
           <textarea
             {...textareaProps}
+            {...field.fieldHandlers}
             ref={textareaRef}
             value={value}
-            onChange={handleChange}
-            onKeyDown={handleKeyDown}
-            onSelect={handleSelect}
             disabled={disabled}
             className={className}
             style={{
               ...defaultStyles.textarea,
               ...style,
-              background: showGhostText && completion ? 'transparent' : undefined,
+              background: field.showGhost ? 'transparent' : undefined,
             }}
           />
-          {renderGhostOverlay()}
-          {isLoading && <div style={defaultStyles.loadingIndicator} aria-label="Loading" />}
+          <SuggestionOverlays
+            field={field}
+            value={value}
+            isLoading={isLoading}
+            completionClassName={completionClassName}
+            acceptKey={acceptKey}
+            dismissKey={dismissKey}
+            acceptWordKey={acceptWordKey}
+            styles={defaultStyles}
+          />
           {showStats && (
             <div style={defaultStyles.statsOverlay}>
-              API: {stats.apiCalls} | Cache: {stats.cacheHits} | Tokens: ~{stats.tokensUsed}
+              API: {stats.apiCalls} | Cache: {stats.cacheHits} | Tokens: {stats.tokensUsed}
             </div>
           )}
         </div>
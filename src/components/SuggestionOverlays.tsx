@@ -0,0 +1,100 @@
+import React, { useEffect } from 'react';
+import type { CompletionDisplayMode } from '../types';
+import type { SuggestionFieldElement, UseSuggestionFieldReturn } from '../hooks/useSuggestionField';
+import { getKeyHints, getSuggestionAnnouncement } from '../utils/a11y';
+import { SuggestionPopup } from './SuggestionPopup';
+import { TouchSuggestionChip } from './TouchSuggestionChip';
+import { LiveRegion, visuallyHidden } from './LiveRegion';
+
+export interface SuggestionOverlaysProps {
+  field: Omit<UseSuggestionFieldReturn<SuggestionFieldElement>, 'fieldRef' | 'fieldHandlers'>;
+  value: string;
+  displayMode?: CompletionDisplayMode;
+  isLoading: boolean;
+  completionClassName?: string;
+  acceptKey: string;
+  dismissKey: string;
+  acceptWordKey: string;
+  /** The component's `ghostOverlay`, `ghostText` and `loadingIndicator` styles */
+  styles: { [key: string]: React.CSSProperties };
+}
+
+// Inject keyframes for the loading spinner
+const injectStyles = () => {
+  if (typeof document === 'undefined') return;
+
+  const styleId = 'autocomplete-textarea-styles';
+  if (document.getElementById(styleId)) return;
+
+  const style = document.createElement('style');
+  style.id = styleId;
+  style.textContent = `
+    @keyframes autocomplete-spin {
+      to { transform: rotate(360deg); }
+    }
+  `;
+  document.head.appendChild(style);
+};
+
+/**
+ * Everything drawn around a text field with suggestions: the ghost text,
+ * the touch chip, the suggestion list, the loading spinner and the hidden
+ * key hints and live region for screen readers.
+ */
+export function SuggestionOverlays({
+  field,
+  value,
+  displayMode = 'ghost',
+  isLoading,
+  completionClassName,
+  acceptKey,
+  dismissKey,
+  acceptWordKey,
+  styles,
+}: SuggestionOverlaysProps) {
+  // Inject CSS for animations
+  useEffect(() => {
+    injectStyles();
+  }, []);
+
+  return (
+    <>
+      {field.showGhost && (
+        <div ref={field.ghostRef} style={{ ...styles.ghostOverlay, ...field.fieldStyles }} aria-hidden="true">
+          <span style={{ visibility: 'hidden' }}>{value.substring(0, field.cursorPosition)}</span>
+          <span style={styles.ghostText} className={completionClassName}>
+            {field.completion}
+          </span>
+        </div>
+      )}
+      {field.showTouchChip && field.chipAnchor && (
+        <TouchSuggestionChip
+          anchor={field.chipAnchor}
+          onAccept={field.acceptSuggestion}
+          onDismiss={field.dismissSuggestion}
+        />
+      )}
+      {field.showPopup && field.popupAnchor && (
+        <SuggestionPopup
+          id={field.listId}
+          suggestions={field.candidates}
+          activeIndex={field.candidateIndex}
+          anchor={field.popupAnchor}
+          onSelect={field.selectSuggestion}
+          onHighlight={field.highlightSuggestion}
+        />
+      )}
+      {isLoading && (
+        <div role="status" style={styles.loadingIndicator}>
+          <span style={visuallyHidden}>Loading completion</span>
+        </div>
+      )}
+      <span id={field.hintId} style={visuallyHidden}>
+        {getKeyHints(displayMode, { acceptKey, dismissKey, acceptWordKey })}
+      </span>
+      <LiveRegion
+        message={isLoading ? '' : getSuggestionAnnouncement(displayMode, field.candidates, field.candidateIndex)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,115 @@
+import React, { useLayoutEffect, useRef, useState } from 'react';
+import { getOptionId } from '../utils/a11y';
+
+export interface SuggestionPopupProps {
+  /** Listbox id; options get `${id}-option-${index}` */
+  id: string;
+  suggestions: string[];
+  activeIndex: number;
+  /** Caret rectangle in viewport coordinates */
+  anchor: { top: number; left: number; height: number };
+  onSelect: (index: number) => void;
+  onHighlight: (index: number) => void;
+  className?: string;
+}
+
+// Space kept between the popup and the viewport edges
+const VIEWPORT_MARGIN = 8;
+
+const styles: { [key: string]: React.CSSProperties } = {
+  list: {
+    position: 'fixed',
+    zIndex: 1000,
+    margin: 0,
+    padding: '4px 0',
+    listStyle: 'none',
+    minWidth: '160px',
+    maxWidth: '480px',
+    maxHeight: '240px',
+    overflowY: 'auto',
+    background: 'white',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+    fontSize: '14px',
+  },
+  item: {
+    padding: '6px 12px',
+    cursor: 'pointer',
+    whiteSpace: 'pre-wrap',
+  },
+  activeItem: {
+    background: '#e8f0fe',
+  },
+};
+
+/**
+ * Suggestion list positioned at the caret. It opens below the caret and
+ * flips above it, and shifts left, when it would leave the viewport.
+ */
+export function SuggestionPopup({
+  id,
+  suggestions,
+  activeIndex,
+  anchor,
+  onSelect,
+  onHighlight,
+  className,
+}: SuggestionPopupProps) {
+  const listRef = useRef<HTMLUListElement>(null);
+  const [position, setPosition] = useState<{ top: number; left: number } | null>(null);
+
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+
+    const { width, height } = list.getBoundingClientRect();
+    const below = anchor.top + anchor.height;
+    const fitsBelow = below + height + VIEWPORT_MARGIN <= window.innerHeight;
+    const fitsAbove = anchor.top - height - VIEWPORT_MARGIN >= 0;
+
+    setPosition({
+      top: fitsBelow || !fitsAbove ? below : anchor.top - height,
+      left: Math.max(VIEWPORT_MARGIN, Math.min(anchor.left, window.innerWidth - width - VIEWPORT_MARGIN)),
+    });
+  }, [anchor.top, anchor.left, anchor.height, suggestions]);
+
+  // Keep the highlighted suggestion scrolled into view
+  useLayoutEffect(() => {
+    const item = listRef.current?.children[activeIndex] as HTMLElement | undefined;
+    item?.scrollIntoView?.({ block: 'nearest' });
+  }, [activeIndex]);
+
+  return (
+    <ul
+      ref={listRef}
+      id={id}
+      role="listbox"
+      aria-label="Suggestions"
+      className={className}
+      style={{
+        ...styles.list,
+        top: position?.top ?? anchor.top + anchor.height,
+        left: position?.left ?? anchor.left,
+        // Measured once before it is shown, to avoid a jump
+        visibility: position ? 'visible' : 'hidden',
+      }}
+    >
+      {suggestions.map((suggestion, index) => (
+        <li
+          key={index}
+          id={getOptionId(id, index)}
+          role="option"
+          aria-selected={index === activeIndex}
+          style={index === activeIndex ? { ...styles.item, ...styles.activeItem } : styles.item}
+          // Keep focus in the text field
+          onMouseDown={(e) => e.preventDefault()}
+          onMouseEnter={() => onHighlight(index)}
+          onClick={() => onSelect(index)}
+        >
+          {suggestion}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,83 @@
+import React, { useLayoutEffect, useRef, useState } from 'react';
+import type { CaretCoordinates } from '../utils/caret';
+
+export interface TouchSuggestionChipProps {
+  /** Caret position relative to the field */
+  anchor: CaretCoordinates;
+  onAccept: () => void;
+  onDismiss: () => void;
+}
+
+const styles: { [key: string]: React.CSSProperties } = {
+  chip: {
+    position: 'absolute',
+    zIndex: 10,
+    display: 'flex',
+    gap: '4px',
+    padding: '4px',
+    background: 'white',
+    border: '1px solid #ddd',
+    borderRadius: '20px',
+    boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+  },
+  button: {
+    minWidth: '44px',
+    minHeight: '36px',
+    padding: '0 12px',
+    border: 'none',
+    borderRadius: '16px',
+    fontSize: '14px',
+    cursor: 'pointer',
+  },
+  accept: {
+    background: '#3498db',
+    color: 'white',
+  },
+  dismiss: {
+    background: '#f0f0f0',
+    color: '#333',
+  },
+};
+
+/**
+ * Accept and dismiss buttons shown just below the caret, for keyboards
+ * without a Tab key. Stays inside the field's width.
+ */
+export function TouchSuggestionChip({ anchor, onAccept, onDismiss }: TouchSuggestionChipProps) {
+  const chipRef = useRef<HTMLDivElement>(null);
+  const [left, setLeft] = useState(anchor.left);
+
+  useLayoutEffect(() => {
+    const chip = chipRef.current;
+    const containerWidth = (chip?.offsetParent as HTMLElement | null)?.clientWidth;
+    if (!chip || !containerWidth) return;
+
+    setLeft(Math.max(0, Math.min(anchor.left, containerWidth - chip.offsetWidth)));
+  }, [anchor.left]);
+
+  // Keep focus, and with it the on-screen keyboard, in the text field
+  const keepFocus = (e: React.MouseEvent) => e.preventDefault();
+
+  return (
+    <div ref={chipRef} style={{ ...styles.chip, top: anchor.top + anchor.height + 4, left }}>
+      <button
+        type="button"
+        style={{ ...styles.button, ...styles.accept }}
+        aria-label="Accept suggestion"
+        onMouseDown={keepFocus}
+        onClick={onAccept}
+      >
+        Accept
+      </button>
+      <button
+        type="button"
+        style={{ ...styles.button, ...styles.dismiss }}
+        aria-label="Dismiss suggestion"
+        onMouseDown={keepFocus}
+        onClick={onDismiss}
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
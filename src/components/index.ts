@@ -3,3 +3,9 @@ export type { AutocompleteTextareaRef } from './AutocompleteTextarea';
 
 export { OptimizedAutocompleteTextarea } from './OptimizedAutocompleteTextarea';
 export type { OptimizedAutocompleteTextareaRef } from './OptimizedAutocompleteTextarea';
+
+export { AutocompleteInput } from './AutocompleteInput';
+export type { AutocompleteInputRef } from './AutocompleteInput';
+
+export { OptimizedAutocompleteInput } from './OptimizedAutocompleteInput';
+export type { OptimizedAutocompleteInputRef } from './OptimizedAutocompleteInput';
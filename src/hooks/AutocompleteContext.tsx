@@ -1,20 +1,51 @@
 import React, { createContext, useContext, useState, useCallback, useMemo } from 'react';
-import type { AIProvider, AnyProviderConfig, AutocompleteContextValue } from '../types';
+import type {
+  AIProvider,
+  AnyProviderConfig,
+  AutocompleteContextValue,
+  BudgetOptions,
+  BudgetStatus,
+  SharedContextOptions,
+} from '../types';
 import { createProvider } from '../providers';
+import type { CompletionBudget } from '../utils/budget';
+import type { CompletionCache } from '../utils/cache';
+import { FieldRegistry } from '../utils/fields';
+import { useBudget } from './useBudget';
 
 const AutocompleteContext = createContext<AutocompleteContextValue | null>(null);
 
 export interface AutocompleteProviderProps {
   children: React.ReactNode;
   initialConfig?: AnyProviderConfig;
+  /** Budget shared by every textarea inside this provider */
+  budget?: CompletionBudget | BudgetOptions;
+  onBudgetExceeded?: (status: BudgetStatus) => void;
+  /** Cache used by optimized textareas inside this provider instead of the global one */
+  cache?: CompletionCache;
+  /** Give each named textarea the content of the other named textareas as context */
+  sharedContext?: boolean | SharedContextOptions;
 }
 
-export function AutocompleteProvider({ children, initialConfig }: AutocompleteProviderProps) {
+export function AutocompleteProvider({
+  children,
+  initialConfig,
+  budget,
+  onBudgetExceeded,
+  cache,
+  sharedContext = false,
+}: AutocompleteProviderProps) {
   const [provider, setProviderState] = useState<AIProvider | null>(
     initialConfig ? createProvider(initialConfig) : null
   );
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
+  const sharedBudget = useBudget(budget, onBudgetExceeded);
+
+  // Created once; later option changes are not picked up
+  const [fields] = useState<FieldRegistry | null>(() =>
+    sharedContext ? new FieldRegistry(sharedContext === true ? {} : sharedContext) : null
+  );
 
   const setProvider = useCallback(async (config: AnyProviderConfig) => {
     setIsLoading(true);
@@ -43,8 +74,11 @@ export function AutocompleteProvider({ children, initialConfig }: AutocompletePr
       isLoading,
       error,
       setProvider,
+      budget: sharedBudget,
+      cache: cache ?? null,
+      fields,
     }),
-    [provider, isLoading, error, setProvider]
+    [provider, isLoading, error, setProvider, sharedBudget, cache, fields]
   );
 
   return (
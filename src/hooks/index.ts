@@ -1,6 +1,9 @@
 export { useAutocomplete } from './useAutocomplete';
 export { useOptimizedAutocomplete } from './useOptimizedAutocomplete';
 export { useSmartTrigger } from './useSmartTrigger';
+export { useBudget } from './useBudget';
+export { useSharedField } from './useSharedField';
+export { useCoarsePointer } from './useCoarsePointer';
 export { AutocompleteProvider, useAutocompleteContext } from './AutocompleteContext';
 export type { AutocompleteProviderProps } from './AutocompleteContext';
 export type { UseOptimizedAutocompleteOptions, UseOptimizedAutocompleteReturn } from './useOptimizedAutocomplete';
@@ -1,6 +1,8 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import type { AIProvider, UseAutocompleteOptions, UseAutocompleteReturn } from '../types';
-import { debounce, shouldTriggerCompletion } from '../utils';
+import type { AIProvider, CompletionAcceptUnit, CompletionUsage, ServedBy, UseAutocompleteOptions, UseAutocompleteReturn } from '../types';
+import { debounce, getPartialCompletion, shouldTriggerCompletion } from '../utils';
+import { previewStreamedCompletion, processStreamedCompletion } from '../utils/transforms';
+import { useBudget } from './useBudget';
 
 export function useAutocomplete(
   provider: AIProvider | null,
@@ -11,15 +13,45 @@ export function useAutocomplete(
     minCharsForCompletion = 10,
     triggerOnSentenceEnd = true,
     enabled = true,
+    streaming = false,
+    candidateCount = 1,
+    budget: budgetOption,
+    onBudgetExceeded,
+    promptTemplate,
+    field,
+    context,
+    getContext,
   } = options;
 
-  const [completion, setCompletion] = useState<string | null>(null);
+  const budget = useBudget(budgetOption, onBudgetExceeded);
+
+  // Read at request time, so inline objects do not restart the debounce
+  const requestOptionsRef = useRef({ promptTemplate, field, context, getContext });
+  requestOptionsRef.current = { promptTemplate, field, context, getContext };
+
+  // `getContext` is only called when a request is actually made
+  const resolveRequestOptions = useCallback(() => {
+    const { getContext: readContext, context: staticContext, ...rest } = requestOptionsRef.current;
+    return { ...rest, context: readContext?.() ?? staticContext };
+  }, []);
+
+  const [suggestions, setSuggestions] = useState<{ candidates: string[]; index: number }>({
+    candidates: [],
+    index: 0,
+  });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
 
   const abortControllerRef = useRef<AbortController | null>(null);
+  const isStreamingRef = useRef(false);
   const lastRequestRef = useRef<{ text: string; cursorPosition: number } | null>(null);
 
+  const completion = suggestions.candidates[suggestions.index] ?? null;
+
+  const setCompletion = useCallback((value: string | null) => {
+    setSuggestions({ candidates: value ? [value] : [], index: 0 });
+  }, []);
+
   const requestCompletionInternal = useCallback(
     async (text: string, cursorPosition: number) => {
       if (!provider || !enabled) {
@@ -30,40 +62,112 @@ export function useAutocomplete(
         return;
       }
 
+      // Completions stop once the budget is exhausted
+      if (budget && !budget.canRequest()) {
+        return;
+      }
+
       // Cancel any pending request
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
       }
 
-      abortControllerRef.current = new AbortController();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
       lastRequestRef.current = { text, cursorPosition };
 
       setIsLoading(true);
       setError(null);
 
       try {
+        // Inside the try, so a throwing getContext fails the request instead of leaving it loading
+        const requestOptions = resolveRequestOptions();
+
+        // Several candidates need the full responses, so they are never streamed
+        if (streaming && provider.completeStream && candidateCount <= 1) {
+          // Render the ghost text progressively as chunks arrive
+          isStreamingRef.current = true;
+          setCompletion(null);
+
+          let started = false;
+          let usage: CompletionUsage | undefined;
+          // A fallback chain bills the pricing of the member that serves the stream
+          let servedBy: ServedBy | undefined;
+          const request = {
+            text,
+            cursorPosition,
+            ...requestOptions,
+            signal: controller.signal,
+            onUsage: (reported: CompletionUsage) => {
+              started = true;
+              usage = reported;
+            },
+            onServedBy: (reported: ServedBy) => {
+              servedBy = reported;
+            },
+          };
+          let streamed = '';
+          try {
+            for await (const chunk of provider.completeStream(request)) {
+              started = true;
+              if (controller.signal.aborted) break;
+              streamed += chunk;
+              setCompletion(previewStreamedCompletion(provider, streamed, request) || null);
+            }
+          } finally {
+            // A started stream is billed even if it is aborted or fails midway
+            if (started) budget?.record(usage, servedBy?.model ?? provider.model);
+          }
+
+          if (!controller.signal.aborted) {
+            setCompletion(processStreamedCompletion(provider, streamed, request) || null);
+          }
+          return;
+        }
+
         const response = await provider.complete({
           text,
           cursorPosition,
+          ...requestOptions,
+          candidateCount: candidateCount > 1 ? candidateCount : undefined,
+          signal: controller.signal,
         });
 
+        budget?.record(response.usage, response.servedBy?.model ?? provider.model);
+
         // Only set completion if this is still the latest request
         if (
           lastRequestRef.current?.text === text &&
           lastRequestRef.current?.cursorPosition === cursorPosition
         ) {
-          setCompletion(response.completion || null);
+          const candidates = response.candidates?.length
+            ? response.candidates
+            : [response.completion].filter(Boolean);
+          setSuggestions({ candidates, index: 0 });
         }
       } catch (err) {
-        if (err instanceof Error && err.name !== 'AbortError') {
+        if (err instanceof Error && err.name !== 'AbortError' && !controller.signal.aborted) {
           setError(err);
           setCompletion(null);
         }
       } finally {
-        setIsLoading(false);
+        if (abortControllerRef.current === controller) {
+          isStreamingRef.current = false;
+          setIsLoading(false);
+        }
       }
     },
-    [provider, enabled, minCharsForCompletion, triggerOnSentenceEnd]
+    [
+      provider,
+      enabled,
+      minCharsForCompletion,
+      triggerOnSentenceEnd,
+      streaming,
+      candidateCount,
+      setCompletion,
+      budget,
+      resolveRequestOptions,
+    ]
   );
 
   const debouncedRequestRef = useRef<ReturnType<typeof debounce<typeof requestCompletionInternal>> | null>(null);
@@ -75,26 +179,73 @@ export function useAutocomplete(
     };
   }, [requestCompletionInternal, debounceMs]);
 
+  // Stops an in-flight stream so its remaining chunks are discarded
+  const cancelStream = useCallback(() => {
+    if (!isStreamingRef.current) return;
+
+    isStreamingRef.current = false;
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsLoading(false);
+  }, []);
+
   const requestCompletion = useCallback(
     (text: string, cursorPosition: number) => {
+      // Typing past a streaming suggestion invalidates it
+      if (isStreamingRef.current) {
+        cancelStream();
+        setCompletion(null);
+      }
+
       debouncedRequestRef.current?.(text, cursorPosition);
     },
-    []
+    [cancelStream, setCompletion]
   );
 
   const acceptCompletion = useCallback((): string => {
+    // Accepting mid-stream takes what has arrived so far
+    cancelStream();
+
     const result = completion || '';
     setCompletion(null);
     return result;
-  }, [completion]);
+  }, [completion, cancelStream, setCompletion]);
+
+  const cycleCandidate = useCallback((direction: 1 | -1) => {
+    setSuggestions((current) => {
+      const count = current.candidates.length;
+      if (count < 2) return current;
+      return { ...current, index: (current.index + direction + count) % count };
+    });
+  }, []);
+
+  const selectCandidate = useCallback((index: number) => {
+    setSuggestions((current) =>
+      index >= 0 && index < current.candidates.length ? { ...current, index } : current
+    );
+  }, []);
+
+  const acceptPartialCompletion = useCallback(
+    (unit: CompletionAcceptUnit): string => {
+      cancelStream();
+
+      const current = completion || '';
+      const accepted = getPartialCompletion(current, unit);
+      // The rest of the suggestion stays visible after the accepted part
+      setCompletion(current.slice(accepted.length) || null);
+      return accepted;
+    },
+    [completion, cancelStream, setCompletion]
+  );
 
   const dismissCompletion = useCallback(() => {
+    cancelStream();
     setCompletion(null);
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
     }
     debouncedRequestRef.current?.cancel();
-  }, []);
+  }, [cancelStream, setCompletion]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -108,10 +259,15 @@ export function useAutocomplete(
 
   return {
     completion,
+    candidates: suggestions.candidates,
+    candidateIndex: suggestions.index,
     isLoading,
     error,
     acceptCompletion,
+    acceptPartialCompletion,
     dismissCompletion,
     requestCompletion,
+    cycleCandidate,
+    selectCandidate,
   };
 }
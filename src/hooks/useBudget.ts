@@ -0,0 +1,33 @@
+import { useRef, useEffect } from 'react';
+import type { BudgetOptions, BudgetStatus } from '../types';
+import { CompletionBudget } from '../utils/budget';
+
+/**
+ * Resolves a budget option to a stable `CompletionBudget` instance and
+ * subscribes `onBudgetExceeded` to it. Plain options create a budget owned
+ * by the calling component, which follows later changes to the options.
+ */
+export function useBudget(
+  budget: CompletionBudget | BudgetOptions | null | undefined,
+  onBudgetExceeded?: (status: BudgetStatus) => void
+): CompletionBudget | null {
+  const ownBudgetRef = useRef<CompletionBudget | null>(null);
+  const onBudgetExceededRef = useRef(onBudgetExceeded);
+  onBudgetExceededRef.current = onBudgetExceeded;
+
+  let instance: CompletionBudget | null = null;
+  if (budget instanceof CompletionBudget) {
+    instance = budget;
+  } else if (budget) {
+    if (ownBudgetRef.current) ownBudgetRef.current.setOptions(budget);
+    else ownBudgetRef.current = new CompletionBudget(budget);
+    instance = ownBudgetRef.current;
+  }
+
+  useEffect(() => {
+    if (!instance) return;
+    return instance.subscribe((status) => onBudgetExceededRef.current?.(status));
+  }, [instance]);
+
+  return instance;
+}
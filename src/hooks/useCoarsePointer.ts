@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+
+const COARSE_POINTER_QUERY = '(pointer: coarse)';
+
+function matchesCoarsePointer(): boolean {
+  return typeof window !== 'undefined' && typeof window.matchMedia === 'function'
+    ? window.matchMedia(COARSE_POINTER_QUERY).matches
+    : false;
+}
+
+/** Whether the primary pointer is a finger rather than a mouse, kept up to date */
+export function useCoarsePointer(): boolean {
+  const [coarse, setCoarse] = useState(matchesCoarsePointer);
+
+  useEffect(() => {
+    if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') return;
+
+    const query = window.matchMedia(COARSE_POINTER_QUERY);
+    const update = () => setCoarse(query.matches);
+
+    update();
+    query.addEventListener('change', update);
+    return () => query.removeEventListener('change', update);
+  }, []);
+
+  return coarse;
+}
@@ -1,7 +1,23 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
-import type { AIProvider, CompletionResponse } from '../types';
+import { useState, useCallback, useRef, useEffect, useId } from 'react';
+import type {
+  AIProvider,
+  AutocompleteStats,
+  BudgetOptions,
+  BudgetStatus,
+  CompletionAcceptUnit,
+  CompletionField,
+  CompletionResponse,
+  CompletionUsage,
+  PromptTemplate,
+  ServedBy,
+} from '../types';
 import { useSmartTrigger } from './useSmartTrigger';
-import { completionCache } from '../utils/cache';
+import { completionCache, getProviderScope } from '../utils/cache';
+import type { CacheScope, CompletionCache } from '../utils/cache';
+import { getPartialCompletion } from '../utils';
+import type { CompletionBudget } from '../utils/budget';
+import { previewStreamedCompletion, processStreamedCompletion } from '../utils/transforms';
+import { useBudget } from './useBudget';
 
 export interface UseOptimizedAutocompleteOptions {
   /** Minimum pause before triggering completion (ms) */
@@ -14,8 +30,26 @@ export interface UseOptimizedAutocompleteOptions {
   triggerAtBreakpoints?: boolean;
   /** Enable caching */
   enableCache?: boolean;
+  /** Cache instance to use instead of the global `completionCache` */
+  cache?: CompletionCache | null;
+  /** Keeps this input's cached completions apart from other inputs; defaults to an id per hook instance */
+  fieldId?: string;
   /** Enable completion */
   enabled?: boolean;
+  /** Render the completion progressively if the provider supports streaming */
+  streaming?: boolean;
+  /** Stop requesting completions once this budget is exhausted */
+  budget?: CompletionBudget | BudgetOptions | null;
+  /** Called once when the budget runs out */
+  onBudgetExceeded?: (status: BudgetStatus) => void;
+  /** Overrides the provider's prompt template for this input */
+  promptTemplate?: PromptTemplate;
+  /** Metadata about the input, available to prompt templates */
+  field?: CompletionField;
+  /** Surrounding document data sent with every request */
+  context?: string;
+  /** Reads the context lazily when a request is made; wins over `context` */
+  getContext?: () => string | undefined;
 }
 
 export interface UseOptimizedAutocompleteReturn {
@@ -23,12 +57,19 @@ export interface UseOptimizedAutocompleteReturn {
   isLoading: boolean;
   error: Error | null;
   acceptCompletion: () => string;
+  acceptPartialCompletion: (unit: CompletionAcceptUnit) => string;
   dismissCompletion: () => void;
   handleTextChange: (text: string, cursorPosition: number) => void;
-  stats: {
-    apiCalls: number;
-    cacheHits: number;
-    tokensUsed: number;
+  stats: AutocompleteStats;
+}
+
+function addUsageToStats(stats: AutocompleteStats, usage?: CompletionUsage): AutocompleteStats {
+  return {
+    ...stats,
+    apiCalls: stats.apiCalls + 1,
+    tokensUsed: stats.tokensUsed + (usage?.totalTokens ?? 0),
+    promptTokens: stats.promptTokens + (usage?.promptTokens ?? 0),
+    completionTokens: stats.completionTokens + (usage?.completionTokens ?? 0),
   };
 }
 
@@ -42,24 +83,81 @@ export function useOptimizedAutocomplete(
     cooldown = 1500,
     triggerAtBreakpoints = true,
     enableCache = true,
+    cache: cacheOption,
+    fieldId: fieldIdOption,
     enabled = true,
+    streaming = false,
+    budget: budgetOption,
+    onBudgetExceeded,
+    promptTemplate,
+    field,
+    context,
+    getContext,
   } = options;
 
+  const budget = useBudget(budgetOption, onBudgetExceeded);
+  const generatedFieldId = useId();
+  const fieldId = fieldIdOption ?? generatedFieldId;
+
+  // Read at request time, so inline objects do not recreate the trigger
+  const requestOptionsRef = useRef({ promptTemplate, field, context, getContext });
+  requestOptionsRef.current = { promptTemplate, field, context, getContext };
+
+  // `getContext` is only called when a request is actually made
+  const resolveRequestOptions = useCallback(() => {
+    const { getContext: readContext, context: staticContext, ...rest } = requestOptionsRef.current;
+    return { ...rest, context: readContext?.() ?? staticContext };
+  }, []);
+  const cache = cacheOption ?? completionCache;
+
   const [completion, setCompletion] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
-  const [stats, setStats] = useState({ apiCalls: 0, cacheHits: 0, tokensUsed: 0 });
+  const [stats, setStats] = useState<AutocompleteStats>({
+    apiCalls: 0,
+    cacheHits: 0,
+    tokensUsed: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+  });
 
   const abortControllerRef = useRef<AbortController | null>(null);
+  const isStreamingRef = useRef(false);
   const currentRequestRef = useRef<{ text: string; cursorPosition: number } | null>(null);
 
   const requestCompletion = useCallback(
     async (text: string, cursorPosition: number) => {
       if (!provider || !enabled) return;
 
+      let requestOptions: ReturnType<typeof resolveRequestOptions>;
+      try {
+        requestOptions = resolveRequestOptions();
+      } catch (err) {
+        // A throwing getContext fails the request like a provider error
+        setError(err instanceof Error ? err : new Error('Failed to read the request context'));
+        setCompletion(null);
+        return;
+      }
+
+      // Results are cached under the backend that produced them; for a chain that is the serving member
+      const scopeFor = (backend: ServedBy): CacheScope => ({
+        systemPrompt: provider.systemPrompt,
+        fieldId,
+        ...requestOptions,
+        ...getProviderScope(backend),
+      });
+      const cacheScope = scopeFor(provider.resolveProvider?.() ?? provider);
+
       // Check cache first
       if (enableCache) {
-        const cached = completionCache.getByPrefix(text, cursorPosition);
+        currentRequestRef.current = { text, cursorPosition };
+        const cached = await cache.getByPrefix(text, cursorPosition, cacheScope);
+
+        // The user may have typed on while the cache was read
+        if (currentRequestRef.current?.text !== text || currentRequestRef.current?.cursorPosition !== cursorPosition) {
+          return;
+        }
+
         if (cached) {
           setCompletion(cached);
           setStats((s) => ({ ...s, cacheHits: s.cacheHits + 1 }));
@@ -67,56 +165,126 @@ export function useOptimizedAutocomplete(
         }
       }
 
+      // Completions stop once the budget is exhausted
+      if (budget && !budget.canRequest()) return;
+
       // Cancel previous request
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
       }
 
-      abortControllerRef.current = new AbortController();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
       currentRequestRef.current = { text, cursorPosition };
 
       setIsLoading(true);
       setError(null);
 
       try {
+        if (streaming && provider.completeStream) {
+          isStreamingRef.current = true;
+          setCompletion(null);
+
+          let started = false;
+          let usage: CompletionUsage | undefined;
+          // A fallback chain bills the pricing of the member that serves the stream
+          let servedBy: ServedBy | undefined;
+          const request = {
+            text,
+            cursorPosition,
+            ...requestOptions,
+            maxTokens: 30,
+            signal: controller.signal,
+            onUsage: (reported: CompletionUsage) => {
+              started = true;
+              usage = reported;
+            },
+            onServedBy: (reported: ServedBy) => {
+              servedBy = reported;
+            },
+          };
+          let streamed = '';
+          try {
+            for await (const chunk of provider.completeStream(request)) {
+              started = true;
+              if (controller.signal.aborted) break;
+              streamed += chunk;
+              setCompletion(previewStreamedCompletion(provider, streamed, request) || null);
+            }
+          } finally {
+            // A started stream is billed even if it is aborted or fails midway
+            if (started) budget?.record(usage, servedBy?.model ?? provider.model);
+          }
+
+          if (controller.signal.aborted) return;
+
+          const completionText = processStreamedCompletion(provider, streamed, request) || null;
+          setCompletion(completionText);
+          setStats((s) => addUsageToStats(s, usage));
+
+          // Only fully streamed completions are cached
+          if (enableCache && completionText) {
+            void cache.set(text, cursorPosition, completionText, servedBy ? scopeFor(servedBy) : cacheScope);
+          }
+          return;
+        }
+
         const response: CompletionResponse = await provider.complete({
           text,
           cursorPosition,
+          ...requestOptions,
           maxTokens: 30, // Limit tokens for faster response
+          signal: controller.signal,
         });
 
+        budget?.record(response.usage, response.servedBy?.model ?? provider.model);
+
         // Verify this is still the current request
         if (
           currentRequestRef.current?.text === text &&
           currentRequestRef.current?.cursorPosition === cursorPosition
         ) {
-          const completionText = response.completion?.trim() || null;
+          const completionText = response.completion || null;
           setCompletion(completionText);
 
           // Update stats
-          setStats((s) => ({
-            ...s,
-            apiCalls: s.apiCalls + 1,
-            tokensUsed: s.tokensUsed + (completionText?.split(/\s+/).length || 0),
-          }));
+          setStats((s) => addUsageToStats(s, response.usage));
 
           // Cache the result
           if (enableCache && completionText) {
-            completionCache.set(text, cursorPosition, completionText);
+            void cache.set(
+              text,
+              cursorPosition,
+              completionText,
+              response.servedBy ? scopeFor(response.servedBy) : cacheScope
+            );
           }
         }
       } catch (err) {
-        if (err instanceof Error && err.name !== 'AbortError') {
+        if (err instanceof Error && err.name !== 'AbortError' && !controller.signal.aborted) {
           setError(err);
           setCompletion(null);
         }
       } finally {
-        setIsLoading(false);
+        if (abortControllerRef.current === controller) {
+          isStreamingRef.current = false;
+          setIsLoading(false);
+        }
       }
     },
-    [provider, enabled, enableCache]
+    [provider, enabled, enableCache, cache, fieldId, streaming, budget, resolveRequestOptions]
   );
 
+  // Stops an in-flight stream so its remaining chunks are discarded
+  const cancelStream = useCallback(() => {
+    if (!isStreamingRef.current) return;
+
+    isStreamingRef.current = false;
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsLoading(false);
+  }, []);
+
   const { checkTrigger, reset } = useSmartTrigger(requestCompletion, {
     pauseThreshold,
     minChars,
@@ -126,6 +294,12 @@ export function useOptimizedAutocomplete(
 
   const handleTextChange = useCallback(
     (text: string, cursorPosition: number) => {
+      // Typing past a streaming suggestion invalidates it
+      if (isStreamingRef.current) {
+        cancelStream();
+        setCompletion(null);
+      }
+
       // Dismiss current completion if user continues typing differently
       if (completion) {
         const textAfterCursor = text.substring(cursorPosition);
@@ -137,22 +311,39 @@ export function useOptimizedAutocomplete(
 
       checkTrigger(text, cursorPosition);
     },
-    [checkTrigger, completion]
+    [checkTrigger, completion, cancelStream]
   );
 
   const acceptCompletion = useCallback((): string => {
+    // Accepting mid-stream takes what has arrived so far
+    cancelStream();
+
     const result = completion || '';
     setCompletion(null);
     return result;
-  }, [completion]);
+  }, [completion, cancelStream]);
+
+  const acceptPartialCompletion = useCallback(
+    (unit: CompletionAcceptUnit): string => {
+      cancelStream();
+
+      const current = completion || '';
+      const accepted = getPartialCompletion(current, unit);
+      // The rest of the suggestion stays visible after the accepted part
+      setCompletion(current.slice(accepted.length) || null);
+      return accepted;
+    },
+    [completion, cancelStream]
+  );
 
   const dismissCompletion = useCallback(() => {
+    cancelStream();
     setCompletion(null);
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
     }
     reset();
-  }, [reset]);
+  }, [reset, cancelStream]);
 
   // Cleanup
   useEffect(() => {
@@ -168,6 +359,7 @@ export function useOptimizedAutocomplete(
     isLoading,
     error,
     acceptCompletion,
+    acceptPartialCompletion,
     dismissCompletion,
     handleTextChange,
     stats,
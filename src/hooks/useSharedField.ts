@@ -0,0 +1,24 @@
+import { useRef, useEffect, useCallback } from 'react';
+import { useAutocompleteContext } from './AutocompleteContext';
+
+/**
+ * Registers a field with the surrounding provider's shared context and
+ * returns a reader for the other fields' content. Without a name or with
+ * shared context turned off the reader returns undefined.
+ */
+export function useSharedField(
+  name: string | undefined,
+  value: string,
+  label?: string
+): () => string | undefined {
+  const { fields } = useAutocompleteContext();
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  useEffect(() => {
+    if (!fields || !name) return;
+    return fields.register(name, () => valueRef.current, label);
+  }, [fields, name, label]);
+
+  return useCallback(() => fields?.getContext(name), [fields, name]);
+}
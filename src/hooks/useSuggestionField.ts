@@ -0,0 +1,481 @@
+import React, { useRef, useCallback, useEffect, useState, useId } from 'react';
+import type { CompletionAcceptUnit, CompletionDisplayMode, CompletionField } from '../types';
+import { useSharedField } from './useSharedField';
+import { useCoarsePointer } from './useCoarsePointer';
+import { useSwipeToAccept } from './useSwipeToAccept';
+import { matchesKeyBinding } from '../utils/keys';
+import { getCompletionField } from '../utils/prompt';
+import { mergeContext } from '../utils/fields';
+import { insertTextUndoable } from '../utils/insert';
+import { getOptionId } from '../utils/a11y';
+import { getCaretCoordinates } from '../utils/caret';
+import type { CaretCoordinates } from '../utils/caret';
+
+export type SuggestionFieldElement = HTMLTextAreaElement | HTMLInputElement;
+
+/** What a field needs from `useAutocomplete` or `useOptimizedAutocomplete` */
+export interface SuggestionSource {
+  completion: string | null;
+  candidates: string[];
+  candidateIndex: number;
+  acceptCompletion: () => string;
+  acceptPartialCompletion: (unit: CompletionAcceptUnit) => string;
+  dismissCompletion: () => void;
+  requestCompletion: (text: string, cursorPosition: number) => void;
+  cycleCandidate?: (direction: 1 | -1) => void;
+  selectCandidate?: (index: number) => void;
+}
+
+export interface UseSuggestionFieldOptions<T extends SuggestionFieldElement> {
+  value: string;
+  onChange: (value: string) => void;
+  source: SuggestionSource;
+  /** The caller's own props; their event handlers still run */
+  fieldProps: React.HTMLAttributes<T>;
+  displayMode?: CompletionDisplayMode;
+  showGhostText: boolean;
+  touchMode: boolean | 'auto';
+  acceptKey: string;
+  dismissKey: string;
+  acceptWordKey: string;
+  acceptLineKey: string;
+  nextCandidateKey?: string;
+  prevCandidateKey?: string;
+  onCompletionAccept?: (completion: string) => void;
+  onPartialAccept?: (accepted: string, remaining: string) => void;
+  onCompletionDismiss?: () => void;
+  /** Applied to suggestions before they are shown or inserted */
+  normalize?: (suggestion: string) => string;
+}
+
+export interface UseSuggestionFieldReturn<T extends SuggestionFieldElement> {
+  fieldRef: React.RefObject<T>;
+  ghostRef: React.RefObject<HTMLDivElement>;
+  cursorPosition: number;
+  completion: string | null;
+  candidates: string[];
+  candidateIndex: number;
+  showGhost: boolean;
+  showPopup: boolean;
+  showTouchChip: boolean;
+  /** Caret in viewport coordinates, for the suggestion list */
+  popupAnchor: CaretCoordinates | null;
+  /** Caret relative to the field, for the touch chip */
+  chipAnchor: CaretCoordinates | null;
+  /** Computed text styles of the field, for the ghost text overlay */
+  fieldStyles: React.CSSProperties;
+  hintId: string;
+  listId: string;
+  /** Handlers and ARIA attributes to spread onto the field */
+  fieldHandlers: React.HTMLAttributes<T>;
+  acceptSuggestion: () => void;
+  dismissSuggestion: () => void;
+  /** Inserts a suggestion picked from the list */
+  selectSuggestion: (index: number) => void;
+  /** Moves the list highlight, e.g. on hover */
+  highlightSuggestion: (index: number) => void;
+}
+
+const keepSuggestion = (suggestion: string) => suggestion;
+const noop = () => {};
+
+/**
+ * Request options a field adds from its own attributes: the field
+ * description for prompt templates, and its context merged with the other
+ * fields of a shared-context provider.
+ */
+export function useFieldRequestOptions(
+  fieldProps: { name?: string; placeholder?: string; lang?: string; 'aria-label'?: string },
+  value: string,
+  context?: string,
+  getContext?: () => string | undefined
+): { field: CompletionField; getContext: () => string | undefined } {
+  const getSharedContext = useSharedField(fieldProps.name, value, fieldProps['aria-label']);
+
+  return {
+    field: getCompletionField(fieldProps),
+    // Own context first, then the other fields
+    getContext: () => mergeContext(getContext?.() ?? context, getSharedContext()),
+  };
+}
+
+/**
+ * Suggestion handling shared by the textarea and input components: cursor
+ * tracking, key bindings, undoable insertion, IME composition, touch
+ * accept/dismiss, the suggestion list and its ARIA wiring.
+ */
+export function useSuggestionField<T extends SuggestionFieldElement>({
+  value,
+  onChange,
+  source,
+  fieldProps,
+  displayMode = 'ghost',
+  showGhostText,
+  touchMode,
+  acceptKey,
+  dismissKey,
+  acceptWordKey,
+  acceptLineKey,
+  nextCandidateKey,
+  prevCandidateKey,
+  onCompletionAccept,
+  onPartialAccept,
+  onCompletionDismiss,
+  normalize = keepSuggestion,
+}: UseSuggestionFieldOptions<T>): UseSuggestionFieldReturn<T> {
+  const fieldRef = useRef<T>(null);
+  const ghostRef = useRef<HTMLDivElement>(null);
+  // Set while accepted text is inserted, which fires a regular change event
+  const isInsertingRef = useRef(false);
+  // Set between compositionstart and compositionend of an IME
+  const isComposingRef = useRef(false);
+  // Text committed at compositionend, which Safari follows with an input event for the same value
+  const committedTextRef = useRef<string | null>(null);
+
+  const a11yId = useId();
+  const hintId = `${a11yId}-hint`;
+  const listId = `${a11yId}-list`;
+
+  const [cursorPosition, setCursorPosition] = useState(0);
+  const [fieldStyles, setFieldStyles] = useState<React.CSSProperties>({});
+  const [popupAnchor, setPopupAnchor] = useState<CaretCoordinates | null>(null);
+  const [chipAnchor, setChipAnchor] = useState<CaretCoordinates | null>(null);
+  const isCoarsePointer = useCoarsePointer();
+
+  const {
+    acceptCompletion,
+    acceptPartialCompletion,
+    dismissCompletion,
+    requestCompletion,
+    cycleCandidate,
+    selectCandidate,
+    candidateIndex,
+  } = source;
+  const completion = source.completion ? normalize(source.completion) || null : null;
+  const candidates = source.candidates.map(normalize);
+
+  const showGhost = displayMode === 'ghost' && showGhostText && Boolean(completion);
+  const showPopup = displayMode === 'popup' && candidates.length > 0;
+
+  // Tappable accept/dismiss buttons for keyboards without a Tab key
+  const showTouchChip = (touchMode === 'auto' ? isCoarsePointer : touchMode) && showGhost;
+
+  // Sync the field's computed styles to the ghost overlay
+  useEffect(() => {
+    const element = fieldRef.current;
+    if (!element) return;
+
+    const computed = window.getComputedStyle(element);
+    setFieldStyles({
+      fontFamily: computed.fontFamily,
+      fontSize: computed.fontSize,
+      fontWeight: computed.fontWeight,
+      // An input centers its single line instead
+      lineHeight: element instanceof HTMLTextAreaElement ? computed.lineHeight : undefined,
+      letterSpacing: computed.letterSpacing,
+      padding: computed.padding,
+      border: 'transparent',
+      borderWidth: computed.borderWidth,
+      borderStyle: computed.borderStyle,
+    });
+  }, [value]);
+
+  // Anchor the suggestion list at the caret, in viewport coordinates
+  const updatePopupAnchor = useCallback(() => {
+    const element = fieldRef.current;
+    if (!element) return;
+
+    const caret = getCaretCoordinates(element, cursorPosition);
+    const rect = element.getBoundingClientRect();
+    setPopupAnchor({ top: rect.top + caret.top, left: rect.left + caret.left, height: caret.height });
+  }, [cursorPosition]);
+
+  useEffect(() => {
+    if (!showPopup) return;
+
+    updatePopupAnchor();
+    window.addEventListener('resize', updatePopupAnchor);
+    window.addEventListener('scroll', updatePopupAnchor, true);
+    return () => {
+      window.removeEventListener('resize', updatePopupAnchor);
+      window.removeEventListener('scroll', updatePopupAnchor, true);
+    };
+  }, [showPopup, updatePopupAnchor, value]);
+
+  // The touch chip follows the caret
+  useEffect(() => {
+    if (!showTouchChip || !fieldRef.current) return;
+    setChipAnchor(getCaretCoordinates(fieldRef.current, cursorPosition));
+  }, [showTouchChip, cursorPosition, value, completion]);
+
+  const handleChange = useCallback(
+    (e: React.ChangeEvent<T>) => {
+      const newValue = e.target.value;
+      const newCursorPosition = e.target.selectionStart ?? newValue.length;
+
+      onChange(newValue);
+      setCursorPosition(newCursorPosition);
+
+      const isCommittedText = committedTextRef.current === newValue;
+      committedTextRef.current = null;
+
+      // Text inserted by accepting a suggestion does not ask for a new one,
+      // half-composed IME text waits for compositionend, and committed text
+      // was already requested there
+      if (isInsertingRef.current || isComposingRef.current || isCommittedText) return;
+
+      requestCompletion(newValue, newCursorPosition);
+    },
+    [onChange, requestCompletion]
+  );
+
+  // While an IME composes, suggestions are dropped and none are requested
+  const handleCompositionStart = useCallback(
+    (e: React.CompositionEvent<T>) => {
+      isComposingRef.current = true;
+      dismissCompletion();
+      fieldProps.onCompositionStart?.(e);
+    },
+    [dismissCompletion, fieldProps]
+  );
+
+  // The committed text triggers once
+  const handleCompositionEnd = useCallback(
+    (e: React.CompositionEvent<T>) => {
+      isComposingRef.current = false;
+      const { value: committedValue, selectionStart } = e.currentTarget;
+      committedTextRef.current = committedValue;
+      requestCompletion(committedValue, selectionStart ?? committedValue.length);
+      fieldProps.onCompositionEnd?.(e);
+    },
+    [requestCompletion, fieldProps]
+  );
+
+  // Insert accepted text at the cursor and move the cursor past it
+  const insertAtCursor = useCallback(
+    (text: string) => {
+      const newCursorPosition = cursorPosition + text.length;
+
+      // Through the browser's editing pipeline, so a single undo removes it again
+      isInsertingRef.current = true;
+      const inserted = fieldRef.current ? insertTextUndoable(fieldRef.current, text, cursorPosition) : false;
+      isInsertingRef.current = false;
+
+      if (inserted) {
+        setCursorPosition(newCursorPosition);
+        return;
+      }
+
+      const beforeCursor = value.substring(0, cursorPosition);
+      const afterCursor = value.substring(cursorPosition);
+      const newValue = beforeCursor + text + afterCursor;
+
+      onChange(newValue);
+
+      setCursorPosition(newCursorPosition);
+
+      // Set cursor position after React updates
+      setTimeout(() => {
+        if (fieldRef.current) {
+          fieldRef.current.setSelectionRange(newCursorPosition, newCursorPosition);
+        }
+      }, 0);
+    },
+    [value, cursorPosition, onChange]
+  );
+
+  const acceptSuggestion = useCallback(() => {
+    const acceptedCompletion = normalize(acceptCompletion());
+
+    if (acceptedCompletion) {
+      insertAtCursor(acceptedCompletion);
+      onCompletionAccept?.(acceptedCompletion);
+    }
+  }, [acceptCompletion, normalize, insertAtCursor, onCompletionAccept]);
+
+  const dismissSuggestion = useCallback(() => {
+    dismissCompletion();
+    onCompletionDismiss?.();
+  }, [dismissCompletion, onCompletionDismiss]);
+
+  const selectSuggestion = useCallback(
+    (index: number) => {
+      const selected = normalize(source.candidates[index] ?? '');
+      if (!selected) return;
+
+      dismissCompletion();
+      insertAtCursor(selected);
+      onCompletionAccept?.(selected);
+    },
+    [source.candidates, normalize, dismissCompletion, insertAtCursor, onCompletionAccept]
+  );
+
+  // Swiping right across the field accepts, like the accept key
+  const { onTouchStart: handleSwipeStart, onTouchEnd: handleSwipeEnd } = useSwipeToAccept<T>(
+    showTouchChip,
+    acceptSuggestion
+  );
+
+  const handleTouchStart = useCallback(
+    (e: React.TouchEvent<T>) => {
+      handleSwipeStart(e);
+      fieldProps.onTouchStart?.(e);
+    },
+    [handleSwipeStart, fieldProps]
+  );
+
+  const handleTouchEnd = useCallback(
+    (e: React.TouchEvent<T>) => {
+      handleSwipeEnd(e);
+      fieldProps.onTouchEnd?.(e);
+    },
+    [handleSwipeEnd, fieldProps]
+  );
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<T>) => {
+      // Keys belong to the IME candidate window while composing
+      if (isComposingRef.current || e.nativeEvent.isComposing) {
+        fieldProps.onKeyDown?.(e);
+        return;
+      }
+
+      // Move through the suggestion list
+      if (showPopup && cycleCandidate && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+        e.preventDefault();
+        cycleCandidate(e.key === 'ArrowDown' ? 1 : -1);
+        return;
+      }
+
+      // Accept completion; Enter also picks from the suggestion list
+      if (completion && (e.key === acceptKey || (showPopup && e.key === 'Enter' && !e.shiftKey))) {
+        e.preventDefault();
+        acceptSuggestion();
+        return;
+      }
+
+      // Accept the next word or line, keeping the rest as ghost text
+      const partialUnit = matchesKeyBinding(e, acceptWordKey)
+        ? 'word'
+        : matchesKeyBinding(e, acceptLineKey)
+          ? 'line'
+          : null;
+
+      if (completion && partialUnit) {
+        e.preventDefault();
+        const accepted = normalize(acceptPartialCompletion(partialUnit));
+
+        if (accepted) {
+          insertAtCursor(accepted);
+          onPartialAccept?.(accepted, completion.slice(accepted.length));
+        }
+        return;
+      }
+
+      // Cycle through alternative candidates
+      if (candidates.length > 1 && cycleCandidate) {
+        const direction = nextCandidateKey && matchesKeyBinding(e, nextCandidateKey)
+          ? 1
+          : prevCandidateKey && matchesKeyBinding(e, prevCandidateKey)
+            ? -1
+            : 0;
+
+        if (direction !== 0) {
+          e.preventDefault();
+          cycleCandidate(direction);
+          return;
+        }
+      }
+
+      // Dismiss completion
+      if (completion && e.key === dismissKey) {
+        e.preventDefault();
+        dismissSuggestion();
+        return;
+      }
+
+      // Call original onKeyDown if provided
+      fieldProps.onKeyDown?.(e);
+    },
+    [
+      completion,
+      candidates.length,
+      showPopup,
+      acceptKey,
+      dismissKey,
+      acceptWordKey,
+      acceptLineKey,
+      nextCandidateKey,
+      prevCandidateKey,
+      normalize,
+      acceptSuggestion,
+      acceptPartialCompletion,
+      dismissSuggestion,
+      cycleCandidate,
+      insertAtCursor,
+      onPartialAccept,
+      fieldProps,
+    ]
+  );
+
+  const handleSelect = useCallback(
+    (e: React.SyntheticEvent<T>) => {
+      setCursorPosition(e.currentTarget.selectionStart ?? e.currentTarget.value.length);
+      fieldProps.onSelect?.(e);
+    },
+    [fieldProps]
+  );
+
+  // The suggestion list closes when focus leaves the field
+  const handleBlur = useCallback(
+    (e: React.FocusEvent<T>) => {
+      if (showPopup) dismissCompletion();
+      fieldProps.onBlur?.(e);
+    },
+    [showPopup, dismissCompletion, fieldProps]
+  );
+
+  // ARIA combobox pattern: focus stays in the field, the highlighted option is the active descendant
+  const comboboxProps: React.HTMLAttributes<T> = displayMode === 'popup'
+    ? {
+        role: 'combobox',
+        'aria-autocomplete': 'list',
+        'aria-expanded': showPopup,
+        'aria-controls': showPopup ? listId : undefined,
+        'aria-activedescendant': showPopup ? getOptionId(listId, candidateIndex) : undefined,
+      }
+    : {};
+
+  return {
+    fieldRef,
+    ghostRef,
+    cursorPosition,
+    completion,
+    candidates,
+    candidateIndex,
+    showGhost,
+    showPopup,
+    showTouchChip,
+    popupAnchor,
+    chipAnchor,
+    fieldStyles,
+    hintId,
+    listId,
+    fieldHandlers: {
+      onChange: handleChange,
+      onKeyDown: handleKeyDown,
+      onSelect: handleSelect,
+      onTouchStart: handleTouchStart,
+      onTouchEnd: handleTouchEnd,
+      onCompositionStart: handleCompositionStart,
+      onCompositionEnd: handleCompositionEnd,
+      onBlur: handleBlur,
+      'aria-describedby': [fieldProps['aria-describedby'], hintId].filter(Boolean).join(' '),
+      ...comboboxProps,
+    },
+    acceptSuggestion,
+    dismissSuggestion,
+    selectSuggestion,
+    highlightSuggestion: selectCandidate ?? noop,
+  };
+}
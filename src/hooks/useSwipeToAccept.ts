@@ -0,0 +1,46 @@
+import { useRef, useCallback } from 'react';
+
+export interface SwipeHandlers<T extends Element> {
+  onTouchStart: (e: React.TouchEvent<T>) => void;
+  onTouchEnd: (e: React.TouchEvent<T>) => void;
+}
+
+// A swipe must travel this far sideways, mostly horizontally, and quickly
+const MIN_SWIPE_DISTANCE = 60;
+const MAX_SWIPE_DRIFT = 30;
+const MAX_SWIPE_DURATION = 500;
+
+/**
+ * Touch handlers that call `onSwipe` for a quick single-finger swipe to the
+ * right, the gesture for accepting a suggestion on touch screens.
+ */
+export function useSwipeToAccept<T extends Element>(
+  enabled: boolean,
+  onSwipe: () => void
+): SwipeHandlers<T> {
+  const startRef = useRef<{ x: number; y: number; time: number } | null>(null);
+
+  const onTouchStart = useCallback((e: React.TouchEvent<T>) => {
+    const touch = e.touches[0];
+    startRef.current = e.touches.length === 1 && touch ? { x: touch.clientX, y: touch.clientY, time: Date.now() } : null;
+  }, []);
+
+  const onTouchEnd = useCallback(
+    (e: React.TouchEvent<T>) => {
+      const start = startRef.current;
+      const touch = e.changedTouches[0];
+      startRef.current = null;
+
+      if (!enabled || !start || !touch) return;
+
+      const dx = touch.clientX - start.x;
+      const dy = Math.abs(touch.clientY - start.y);
+      if (dx >= MIN_SWIPE_DISTANCE && dy <= MAX_SWIPE_DRIFT && Date.now() - start.time <= MAX_SWIPE_DURATION) {
+        onSwipe();
+      }
+    },
+    [enabled, onSwipe]
+  );
+
+  return { onTouchStart, onTouchEnd };
+}
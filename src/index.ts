@@ -1,12 +1,25 @@
 // Components
-export { AutocompleteTextarea, OptimizedAutocompleteTextarea } from './components';
-export type { AutocompleteTextareaRef, OptimizedAutocompleteTextareaRef } from './components';
+export {
+  AutocompleteTextarea,
+  OptimizedAutocompleteTextarea,
+  AutocompleteInput,
+  OptimizedAutocompleteInput,
+} from './components';
+export type {
+  AutocompleteTextareaRef,
+  OptimizedAutocompleteTextareaRef,
+  AutocompleteInputRef,
+  OptimizedAutocompleteInputRef,
+} from './components';
 
 // Hooks and Context
 export {
   useAutocomplete,
   useOptimizedAutocomplete,
   useSmartTrigger,
+  useBudget,
+  useSharedField,
+  useCoarsePointer,
   useAutocompleteContext,
   AutocompleteProvider,
 } from './hooks';
@@ -25,8 +38,11 @@ export {
   StreamingOpenAIProvider,
   GeminiProvider,
   OpenRouterProvider,
+  AnthropicProvider,
   LocalProvider,
+  LocalServerProvider,
   CustomProvider,
+  FallbackProvider,
 } from './providers';
 
 // Types
@@ -34,19 +50,69 @@ export type {
   ProviderType,
   CompletionRequest,
   CompletionResponse,
+  CompletionUsage,
+  ServedBy,
+  CompletionField,
+  PromptTemplate,
   AIProvider,
   ProviderConfig,
+  RetryPolicy,
   OpenAIConfig,
   GeminiConfig,
   OpenRouterConfig,
+  AnthropicConfig,
   LocalConfig,
+  LocalServerConfig,
   CustomProviderConfig,
+  FallbackConfig,
   AnyProviderConfig,
   AutocompleteContextValue,
+  AutocompleteStats,
+  BudgetOptions,
+  BudgetStatus,
+  ModelPricing,
+  SharedContextOptions,
+  AutocompleteFieldProps,
+  CompletionDisplayMode,
   AutocompleteTextareaProps,
+  AutocompleteInputProps,
+  OptimizedAutocompleteProps,
   UseAutocompleteOptions,
   UseAutocompleteReturn,
 } from './types';
 
 // Utils
-export { debounce, shouldTriggerCompletion, getTextSegments, CompletionCache, completionCache } from './utils';
+export {
+  debounce,
+  shouldTriggerCompletion,
+  getTextSegments,
+  CompletionCache,
+  completionCache,
+  MemoryCacheStorage,
+  LocalStorageCacheStorage,
+  IndexedDBCacheStorage,
+  matchesKeyBinding,
+  parseKeyBinding,
+  retryAsync,
+  CompletionBudget,
+  FieldRegistry,
+  mergeContext,
+  applyCompletionTransforms,
+  defaultCompletionTransforms,
+  stripCompletionPrefix,
+  stripWrappingQuotes,
+  trimOverlapBefore,
+  trimOverlapAfter,
+  cutAtStopBoundary,
+  normalizeLeadingWhitespace,
+  renderPromptTemplate,
+} from './utils';
+export type {
+  KeyBinding,
+  CacheEntry,
+  CacheScope,
+  CacheStorageAdapter,
+  CompletionTransform,
+  CompletionTransformContext,
+  PromptVariables,
+} from './utils';
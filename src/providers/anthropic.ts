@@ -0,0 +1,113 @@
+import type { AnthropicConfig, CompletionRequest, CompletionResponse, ProviderType } from '../types';
+import { BaseProvider } from './base';
+import { createUsage } from '../utils/usage';
+
+export class AnthropicProvider extends BaseProvider {
+  name = 'Anthropic';
+  type: ProviderType = 'anthropic';
+
+  private apiKey: string;
+  model: string;
+  baseUrl: string;
+  private apiVersion: string;
+
+  constructor(config: AnthropicConfig) {
+    super(config.systemPrompt, config.maxTokens, config);
+    this.apiKey = config.apiKey;
+    this.model = config.model || 'claude-3-5-haiku-latest';
+    this.baseUrl = config.baseUrl || 'https://api.anthropic.com/v1';
+    this.apiVersion = config.apiVersion || '2023-06-01';
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    if ((request.candidateCount ?? 1) > 1) {
+      return this.completeInParallel(request, (single) => this.complete(single));
+    }
+
+    const response = await this.request(request, false);
+    const data = await response.json();
+    const text = data.content?.find((block: { type: string }) => block.type === 'text')?.text || '';
+    const completion = this.postProcess(text, request);
+
+    return {
+      completion,
+      confidence: data.stop_reason === 'end_turn' || data.stop_reason === 'stop_sequence' ? 1 : 0.8,
+      usage: createUsage(data.usage?.input_tokens, data.usage?.output_tokens),
+    };
+  }
+
+  async *completeStream(request: CompletionRequest): AsyncGenerator<string> {
+    const response = await this.request(request, true);
+    // Input tokens arrive with message_start, output tokens grow with each message_delta
+    let inputTokens: number | undefined;
+
+    for await (const data of this.readEventStream(response)) {
+      let parsed;
+      try {
+        parsed = JSON.parse(data);
+      } catch {
+        // Skip invalid JSON
+        continue;
+      }
+
+      if (parsed.type === 'content_block_delta' && parsed.delta?.type === 'text_delta') {
+        if (parsed.delta.text) yield parsed.delta.text;
+      } else if (parsed.type === 'message_start') {
+        inputTokens = parsed.message?.usage?.input_tokens;
+        this.reportUsage(request, createUsage(inputTokens, parsed.message?.usage?.output_tokens));
+      } else if (parsed.type === 'message_delta') {
+        this.reportUsage(request, createUsage(inputTokens, parsed.usage?.output_tokens));
+      } else if (parsed.type === 'message_stop') {
+        return;
+      } else if (parsed.type === 'error') {
+        throw new Error(parsed.error?.message || 'Anthropic API stream error');
+      }
+    }
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': this.apiKey,
+      'anthropic-version': this.apiVersion,
+      // Required for requests made straight from the browser
+      'anthropic-dangerous-direct-browser-access': 'true',
+    };
+  }
+
+  private async request(request: CompletionRequest, stream: boolean): Promise<Response> {
+    const prompt = this.buildPrompt(request);
+
+    const response = await this.fetchWithRetry(`${this.baseUrl}/messages`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({
+        model: this.model,
+        system: this.buildSystemPrompt(request),
+        messages: [{ role: 'user', content: prompt }],
+        max_tokens: request.maxTokens || this.maxTokens,
+        temperature: 0.7,
+        stream,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error?.message || `Anthropic API error: ${response.status}`);
+    }
+
+    return response;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.getHeaders(),
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+}
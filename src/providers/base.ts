@@ -1,15 +1,43 @@
-import type { AIProvider, CompletionRequest, CompletionResponse, ProviderType } from '../types';
+import type {
+  AIProvider,
+  CompletionRequest,
+  CompletionResponse,
+  CompletionUsage,
+  ProviderConfig,
+  PromptTemplate,
+  ProviderType,
+  RetryPolicy,
+} from '../types';
+import { addUsage } from '../utils/usage';
+import { getRequestSegments } from '../utils/request';
+import { getPromptVariables, renderPromptTemplate } from '../utils/prompt';
+import type { PromptVariables } from '../utils/prompt';
+import { applyCompletionTransforms, defaultCompletionTransforms } from '../utils/transforms';
+import type { CompletionTransform } from '../utils/transforms';
+import { getRetryDelay, isAbortError, isRetryableStatus, parseRetryAfter, resolveRetryPolicy, sleep } from '../utils/retry';
 
 export abstract class BaseProvider implements AIProvider {
   abstract name: string;
   abstract type: ProviderType;
 
-  protected systemPrompt: string;
+  systemPrompt: string;
   protected maxTokens: number;
+  protected retryPolicy: Required<RetryPolicy>;
+  protected transforms: CompletionTransform[];
+  protected fim: boolean;
+  protected promptTemplate: PromptTemplate;
 
-  constructor(systemPrompt?: string, maxTokens?: number) {
+  constructor(
+    systemPrompt?: string,
+    maxTokens?: number,
+    options: Pick<ProviderConfig, 'retry' | 'transforms' | 'fim' | 'promptTemplate'> = {}
+  ) {
     this.systemPrompt = systemPrompt || this.getDefaultSystemPrompt();
     this.maxTokens = maxTokens || 50;
+    this.retryPolicy = resolveRetryPolicy(options.retry);
+    this.transforms = options.transforms ?? defaultCompletionTransforms;
+    this.fim = options.fim ?? false;
+    this.promptTemplate = options.promptTemplate ?? {};
   }
 
   protected getDefaultSystemPrompt(): string {
@@ -26,9 +54,27 @@ Rules:
 8. Do not add any quote or specific character at the beginning or ending.`;
   }
 
+  protected getPromptVariables(request: CompletionRequest): PromptVariables {
+    return getPromptVariables(request);
+  }
+
+  /** The request's template wins over the provider's, which wins over `systemPrompt` */
+  protected buildSystemPrompt(request: CompletionRequest): string {
+    const template = request.promptTemplate?.system ?? this.promptTemplate.system ?? this.systemPrompt;
+    return renderPromptTemplate(template, this.getPromptVariables(request));
+  }
+
   protected buildPrompt(request: CompletionRequest): string {
-    const textBeforeCursor = request.text.substring(0, request.cursorPosition);
-    const textAfterCursor = request.text.substring(request.cursorPosition);
+    const template = request.promptTemplate?.user ?? this.promptTemplate.user;
+    if (template) {
+      return renderPromptTemplate(template, this.getPromptVariables(request));
+    }
+
+    const { prefix: textBeforeCursor, suffix: textAfterCursor } = getRequestSegments(request);
+
+    if (this.fim && textAfterCursor.trim()) {
+      return this.buildFillInPrompt(request);
+    }
 
     let prompt = `Complete the following text naturally. Return ONLY the completion, nothing else.\n\n`;
 
@@ -47,6 +93,162 @@ Rules:
     return prompt;
   }
 
+  /**
+   * Fill-in-the-middle prompt for chat models without native suffix support:
+   * the document is shown whole with a marker where the completion goes.
+   */
+  protected buildFillInPrompt(request: CompletionRequest): string {
+    const { prefix, suffix } = getRequestSegments(request);
+
+    let prompt = `Fill in the text at [CURSOR]. Return ONLY the inserted text, nothing else. It must join the text after [CURSOR] seamlessly and must not repeat it.\n\n`;
+
+    if (request.context) {
+      prompt += `Context: ${request.context}\n\n`;
+    }
+
+    prompt += `${prefix}[CURSOR]${suffix}`;
+
+    return prompt;
+  }
+
+  /**
+   * Prompt for backends that take the suffix natively. There is no room for
+   * instructions, so the context goes in front of the text as plain prose.
+   */
+  protected buildFillInPrefix(request: CompletionRequest): string {
+    const { prefix } = getRequestSegments(request);
+    return request.context ? `${request.context}\n\n${prefix}` : prefix;
+  }
+
+  /**
+   * `fetch` under the provider's retry policy. Network errors, 408, 429 and 5xx
+   * responses are retried with backoff, honoring `Retry-After`. The last
+   * response is returned as-is so callers keep their own error handling.
+   */
+  protected async fetchWithRetry(url: string, init: RequestInit): Promise<Response> {
+    const policy = this.retryPolicy;
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response;
+
+      try {
+        response = await fetch(url, init);
+      } catch (err) {
+        if (init.signal?.aborted || isAbortError(err) || attempt >= policy.maxAttempts) {
+          throw err;
+        }
+
+        await sleep(getRetryDelay(attempt, policy), init.signal ?? undefined);
+        continue;
+      }
+
+      if (response.ok || !isRetryableStatus(response.status) || attempt >= policy.maxAttempts) {
+        return response;
+      }
+
+      // A server asking for a longer pause than we allow is not worth waiting for
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      if (retryAfter !== null && retryAfter > policy.maxDelayMs) {
+        return response;
+      }
+
+      response.body?.cancel().catch(() => {});
+      await sleep(retryAfter ?? getRetryDelay(attempt, policy), init.signal ?? undefined);
+    }
+  }
+
+  /** Streams only yield text, so the usage they report goes to the request's `onUsage` */
+  protected reportUsage(request: CompletionRequest, usage: CompletionUsage | undefined): void {
+    if (usage) request.onUsage?.(usage);
+  }
+
+  /** Cleans up raw model output with the configured transform pipeline */
+  postProcess(completion: string, request: CompletionRequest): string {
+    return applyCompletionTransforms(completion, request, this.transforms);
+  }
+
+  // Drops empty and duplicate completions, keeping the model's order
+  protected toCandidates(completions: string[]): string[] {
+    return Array.from(new Set(completions.filter((completion) => completion.length > 0)));
+  }
+
+  /**
+   * Fans a multi-candidate request out into parallel single requests, for
+   * backends without a native way to return several completions.
+   */
+  protected async completeInParallel(
+    request: CompletionRequest,
+    complete: (request: CompletionRequest) => Promise<CompletionResponse>
+  ): Promise<CompletionResponse> {
+    const count = Math.max(1, request.candidateCount ?? 1);
+    const results = await Promise.allSettled(
+      Array.from({ length: count }, () => complete({ ...request, candidateCount: 1 }))
+    );
+
+    const responses = results
+      .filter((result): result is PromiseFulfilledResult<CompletionResponse> => result.status === 'fulfilled')
+      .map((result) => result.value);
+
+    if (responses.length === 0) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+
+    const candidates = this.toCandidates(responses.map((response) => response.completion));
+
+    return {
+      ...responses[0],
+      completion: candidates[0] ?? '',
+      candidates,
+      usage: responses.reduce<CompletionUsage | undefined>((total, response) => addUsage(total, response.usage), undefined),
+    };
+  }
+
+  /**
+   * Reads a streamed response body line by line, buffering partial lines
+   * across chunks. Cancels the underlying body if the consumer stops early.
+   */
+  protected async *readLines(response: Response): AsyncGenerator<string> {
+    const reader = response.body?.getReader();
+    if (!reader) throw new Error('No response body');
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          yield line.replace(/\r$/, '');
+        }
+      }
+
+      buffer += decoder.decode();
+      if (buffer) yield buffer;
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+  }
+
+  /**
+   * Yields the `data:` payloads of a server-sent events stream.
+   * The OpenAI-style `[DONE]` sentinel ends the stream.
+   */
+  protected async *readEventStream(response: Response): AsyncGenerator<string> {
+    for await (const line of this.readLines(response)) {
+      if (!line.startsWith('data:')) continue;
+
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') return;
+      if (data) yield data;
+    }
+  }
+
   abstract complete(request: CompletionRequest): Promise<CompletionResponse>;
 
   abstract isAvailable(): Promise<boolean>;
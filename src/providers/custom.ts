@@ -1,17 +1,38 @@
-import type { CompletionRequest, CompletionResponse, CustomProviderConfig, ProviderType, AIProvider } from '../types';
+import type { CompletionRequest, CompletionResponse, CustomProviderConfig, ProviderType, AIProvider, RetryPolicy } from '../types';
+import { retryAsync } from '../utils/retry';
+import { applyCompletionTransforms } from '../utils/transforms';
+import type { CompletionTransform } from '../utils/transforms';
 
 export class CustomProvider implements AIProvider {
   name = 'Custom';
   type: ProviderType = 'custom';
 
   private handler: (request: CompletionRequest) => Promise<CompletionResponse>;
+  private retry?: RetryPolicy;
+  private transforms?: CompletionTransform[];
+
+  completeStream?: (request: CompletionRequest) => AsyncIterable<string>;
 
   constructor(config: CustomProviderConfig) {
     this.handler = config.handler;
+    this.retry = config.retry;
+    this.transforms = config.transforms;
+    this.completeStream = config.streamHandler;
   }
 
   async complete(request: CompletionRequest): Promise<CompletionResponse> {
-    return this.handler(request);
+    const response = await retryAsync(() => this.handler(request), this.retry, request.signal);
+    const candidates = response.candidates?.map((candidate) => this.postProcess(candidate, request)).filter(Boolean);
+
+    return {
+      ...response,
+      completion: this.postProcess(response.completion, request),
+      candidates,
+    };
+  }
+
+  postProcess(completion: string, request: CompletionRequest): string {
+    return applyCompletionTransforms(completion, request, this.transforms);
   }
 
   async isAvailable(): Promise<boolean> {
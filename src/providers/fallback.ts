@@ -0,0 +1,154 @@
+import type { AIProvider, CompletionRequest, CompletionResponse, FallbackConfig, ProviderType, ServedBy } from '../types';
+import { applyCompletionTransforms } from '../utils/transforms';
+import type { CompletionTransform } from '../utils/transforms';
+
+function describe(provider: AIProvider): ServedBy {
+  return { name: provider.name, type: provider.type, model: provider.model, baseUrl: provider.baseUrl };
+}
+
+function isAbort(err: unknown, request: CompletionRequest): boolean {
+  return request.signal?.aborted === true || (err instanceof Error && err.name === 'AbortError');
+}
+
+/**
+ * Tries a chain of providers in order. A provider that fails is skipped for
+ * `cooldownMs` so later requests go straight to the next healthy backend.
+ */
+export class FallbackProvider implements AIProvider {
+  name: string;
+  type: ProviderType = 'fallback';
+
+  private providers: AIProvider[];
+  private cooldownMs: number;
+  private transforms?: CompletionTransform[];
+  private unhealthyUntil = new Map<AIProvider, number>();
+  // Streams served by a member's complete(), whose text that member already cleaned up
+  private preprocessed = new WeakSet<CompletionRequest>();
+
+  constructor(providers: AIProvider[], config: FallbackConfig) {
+    if (providers.length === 0) {
+      throw new Error('Fallback provider needs at least one provider');
+    }
+
+    this.providers = providers;
+    this.cooldownMs = config.cooldownMs ?? 30000;
+    this.transforms = config.transforms;
+    this.name = `Fallback (${providers.map((provider) => provider.name).join(' → ')})`;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const errors: Error[] = [];
+
+    for (const provider of this.getProviderOrder()) {
+      try {
+        const response = await provider.complete(request);
+        this.markHealthy(provider);
+        return {
+          ...response,
+          servedBy: response.servedBy ?? describe(provider),
+        };
+      } catch (err) {
+        if (isAbort(err, request)) throw err;
+        this.markUnhealthy(provider);
+        errors.push(err instanceof Error ? err : new Error(String(err)));
+      }
+    }
+
+    throw this.toError(errors);
+  }
+
+  async *completeStream(request: CompletionRequest): AsyncGenerator<string> {
+    const errors: Error[] = [];
+
+    for (const provider of this.getProviderOrder()) {
+      let yielded = false;
+      // A nested chain reports its own member, which wins like `servedBy` in complete()
+      let nestedServedBy: ServedBy | undefined;
+      const memberRequest: CompletionRequest = {
+        ...request,
+        onServedBy: (servedBy) => {
+          nestedServedBy = servedBy;
+        },
+      };
+
+      try {
+        if (provider.completeStream) {
+          for await (const chunk of provider.completeStream(memberRequest)) {
+            if (!yielded) request.onServedBy?.(nestedServedBy ?? describe(provider));
+            yielded = true;
+            yield chunk;
+          }
+          if (!yielded) request.onServedBy?.(nestedServedBy ?? describe(provider));
+        } else {
+          const response = await provider.complete(memberRequest);
+          this.preprocessed.add(request);
+          request.onServedBy?.(response.servedBy ?? describe(provider));
+          if (response.usage) request.onUsage?.(response.usage);
+          yielded = true;
+          yield response.completion;
+        }
+
+        this.markHealthy(provider);
+        return;
+      } catch (err) {
+        // Text already shown to the user cannot be replaced by another backend
+        if (yielded || isAbort(err, request)) throw err;
+        this.markUnhealthy(provider);
+        errors.push(err instanceof Error ? err : new Error(String(err)));
+      }
+    }
+
+    throw this.toError(errors);
+  }
+
+  // Completions from complete() were already cleaned up by the serving provider;
+  // this pipeline applies to raw streamed text, whose source is not known up front
+  postProcess(completion: string, request: CompletionRequest): string {
+    if (this.preprocessed.has(request)) return completion;
+    return applyCompletionTransforms(completion, request, this.transforms);
+  }
+
+  resolveProvider(): ServedBy {
+    const [next] = this.getProviderOrder();
+    return next.resolveProvider?.() ?? describe(next);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    const results = await Promise.all(this.providers.map((provider) => provider.isAvailable().catch(() => false)));
+    return results.some(Boolean);
+  }
+
+  getStatus(): Array<{ name: string; type: ProviderType; healthy: boolean }> {
+    return this.providers.map((provider) => ({
+      name: provider.name,
+      type: provider.type,
+      healthy: this.isHealthy(provider),
+    }));
+  }
+
+  // Healthy providers first, in configured order. Providers in cool-down are
+  // kept as a last resort rather than failing outright.
+  private getProviderOrder(): AIProvider[] {
+    const healthy = this.providers.filter((provider) => this.isHealthy(provider));
+    const cooling = this.providers.filter((provider) => !this.isHealthy(provider));
+    return [...healthy, ...cooling];
+  }
+
+  private isHealthy(provider: AIProvider): boolean {
+    const until = this.unhealthyUntil.get(provider);
+    return until === undefined || Date.now() >= until;
+  }
+
+  private markHealthy(provider: AIProvider): void {
+    this.unhealthyUntil.delete(provider);
+  }
+
+  private markUnhealthy(provider: AIProvider): void {
+    this.unhealthyUntil.set(provider, Date.now() + this.cooldownMs);
+  }
+
+  private toError(errors: Error[]): Error {
+    const details = errors.map((error) => error.message).join('; ');
+    return new Error(`All fallback providers failed: ${details}`);
+  }
+}
@@ -1,24 +1,75 @@
 import type { CompletionRequest, CompletionResponse, GeminiConfig, ProviderType } from '../types';
 import { BaseProvider } from './base';
+import { createUsage } from '../utils/usage';
 
 export class GeminiProvider extends BaseProvider {
   name = 'Gemini';
   type: ProviderType = 'gemini';
 
   private apiKey: string;
-  private model: string;
+  model: string;
 
   constructor(config: GeminiConfig) {
-    super(config.systemPrompt, config.maxTokens);
+    super(config.systemPrompt, config.maxTokens, config);
     this.apiKey = config.apiKey;
     this.model = config.model || 'gemini-1.5-flash';
   }
 
   async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const response = await this.request(request, 'generateContent');
+    const data = await response.json();
+    const candidates = this.toCandidates(
+      (data.candidates ?? []).map(
+        (candidate: { content?: { parts?: Array<{ text?: string }> } }) =>
+          this.postProcess(candidate.content?.parts?.[0]?.text || '', request)
+      )
+    );
+
+    return {
+      completion: candidates[0] ?? '',
+      candidates,
+      confidence: data.candidates?.[0]?.finishReason === 'STOP' ? 1 : 0.8,
+      usage: createUsage(
+        data.usageMetadata?.promptTokenCount,
+        data.usageMetadata?.candidatesTokenCount,
+        data.usageMetadata?.totalTokenCount
+      ),
+    };
+  }
+
+  async *completeStream(request: CompletionRequest): AsyncGenerator<string> {
+    const response = await this.request(request, 'streamGenerateContent');
+
+    for await (const data of this.readEventStream(response)) {
+      try {
+        const parsed = JSON.parse(data);
+        const token = parsed.candidates?.[0]?.content?.parts?.[0]?.text;
+        if (token) yield token;
+
+        // Running totals, complete on the last chunk
+        this.reportUsage(
+          request,
+          createUsage(
+            parsed.usageMetadata?.promptTokenCount,
+            parsed.usageMetadata?.candidatesTokenCount,
+            parsed.usageMetadata?.totalTokenCount
+          )
+        );
+      } catch {
+        // Skip invalid JSON
+      }
+    }
+  }
+
+  private async request(
+    request: CompletionRequest,
+    method: 'generateContent' | 'streamGenerateContent'
+  ): Promise<Response> {
     const prompt = this.buildPrompt(request);
-    const url = `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:generateContent?key=${this.apiKey}`;
+    const params = method === 'streamGenerateContent' ? `alt=sse&key=${this.apiKey}` : `key=${this.apiKey}`;
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:${method}?${params}`;
 
-    const response = await fetch(url, {
+    const response = await this.fetchWithRetry(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -26,14 +77,16 @@ export class GeminiProvider extends BaseProvider {
       body: JSON.stringify({
         contents: [
           {
-            parts: [{ text: `${this.systemPrompt}\n\n${prompt}` }],
+            parts: [{ text: `${this.buildSystemPrompt(request)}\n\n${prompt}` }],
           },
         ],
         generationConfig: {
           maxOutputTokens: request.maxTokens || this.maxTokens,
           temperature: 0.7,
+          candidateCount: method === 'generateContent' ? request.candidateCount : undefined,
         },
       }),
+      signal: request.signal,
     });
 
     if (!response.ok) {
@@ -41,13 +94,7 @@ export class GeminiProvider extends BaseProvider {
       throw new Error(error.error?.message || `Gemini API error: ${response.status}`);
     }
 
-    const data = await response.json();
-    const completion = data.candidates?.[0]?.content?.parts?.[0]?.text?.trim() || '';
-
-    return {
-      completion,
-      confidence: data.candidates?.[0]?.finishReason === 'STOP' ? 1 : 0.8,
-    };
+    return response;
   }
 
   async isAvailable(): Promise<boolean> {
@@ -2,16 +2,22 @@ import type { AIProvider, AnyProviderConfig } from '../types';
 import { OpenAIProvider } from './openai';
 import { GeminiProvider } from './gemini';
 import { OpenRouterProvider } from './openrouter';
+import { AnthropicProvider } from './anthropic';
 import { LocalProvider } from './local';
+import { LocalServerProvider } from './local-server';
 import { CustomProvider } from './custom';
+import { FallbackProvider } from './fallback';
 
 export { BaseProvider } from './base';
 export { OpenAIProvider } from './openai';
 export { StreamingOpenAIProvider } from './streaming-openai';
 export { GeminiProvider } from './gemini';
 export { OpenRouterProvider } from './openrouter';
+export { AnthropicProvider } from './anthropic';
 export { LocalProvider } from './local';
+export { LocalServerProvider } from './local-server';
 export { CustomProvider } from './custom';
+export { FallbackProvider } from './fallback';
 
 export function createProvider(config: AnyProviderConfig): AIProvider {
   switch (config.type) {
@@ -21,10 +27,16 @@ export function createProvider(config: AnyProviderConfig): AIProvider {
       return new GeminiProvider(config);
     case 'openrouter':
       return new OpenRouterProvider(config);
+    case 'anthropic':
+      return new AnthropicProvider(config);
     case 'local':
       return new LocalProvider(config);
+    case 'local-server':
+      return new LocalServerProvider(config);
     case 'custom':
       return new CustomProvider(config);
+    case 'fallback':
+      return new FallbackProvider(config.providers.map(createProvider), config);
     default:
       throw new Error(`Unknown provider type: ${(config as AnyProviderConfig).type}`);
   }
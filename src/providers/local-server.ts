@@ -0,0 +1,173 @@
+import type { CompletionRequest, CompletionResponse, LocalServerConfig, ProviderType } from '../types';
+import { BaseProvider } from './base';
+import { createUsage } from '../utils/usage';
+import { getRequestSegments } from '../utils/request';
+
+const DEFAULT_BASE_URLS: Record<NonNullable<LocalServerConfig['server']>, string> = {
+  ollama: 'http://localhost:11434',
+  llamacpp: 'http://localhost:8080',
+};
+
+/**
+ * Talks to a self-hosted inference server: Ollama (`/api/generate`) or the
+ * llama.cpp server (`/completion` and `/infill`).
+ */
+export class LocalServerProvider extends BaseProvider {
+  name: string;
+  type: ProviderType = 'local-server';
+
+  private server: NonNullable<LocalServerConfig['server']>;
+  model: string;
+  baseUrl: string;
+  private raw: boolean;
+
+  constructor(config: LocalServerConfig) {
+    super(config.systemPrompt, config.maxTokens, config);
+    this.server = config.server || 'ollama';
+    this.name = this.server === 'ollama' ? 'Ollama' : 'llama.cpp';
+    this.model = config.model || 'llama3.2';
+    this.baseUrl = (config.baseUrl || DEFAULT_BASE_URLS[this.server]).replace(/\/$/, '');
+    this.raw = config.raw ?? false;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    if ((request.candidateCount ?? 1) > 1) {
+      return this.completeInParallel(request, (single) => this.complete(single));
+    }
+
+    const response = await this.request(request, false);
+    const data = await response.json();
+
+    if (this.server === 'ollama') {
+      return {
+        completion: this.postProcess(data.response || '', request),
+        confidence: data.done_reason === 'length' ? 0.8 : 1,
+        usage: createUsage(data.prompt_eval_count, data.eval_count),
+      };
+    }
+
+    const hitLimit = data.stop_type === 'limit' || data.stopped_limit === true;
+    return {
+      completion: this.postProcess(data.content || '', request),
+      confidence: hitLimit ? 0.8 : 1,
+      usage: createUsage(data.tokens_evaluated, data.tokens_predicted),
+    };
+  }
+
+  async *completeStream(request: CompletionRequest): AsyncGenerator<string> {
+    const response = await this.request(request, true);
+
+    // Ollama streams newline-delimited JSON, llama.cpp streams server-sent events
+    const payloads = this.server === 'ollama' ? this.readLines(response) : this.readEventStream(response);
+
+    for await (const payload of payloads) {
+      if (!payload.trim()) continue;
+
+      let parsed;
+      try {
+        parsed = JSON.parse(payload);
+      } catch {
+        // Skip invalid JSON
+        continue;
+      }
+
+      if (parsed.error) {
+        throw new Error(typeof parsed.error === 'string' ? parsed.error : parsed.error.message);
+      }
+
+      const token = this.server === 'ollama' ? parsed.response : parsed.content;
+      if (token) yield token;
+
+      // Counts only come with the final message
+      this.reportUsage(
+        request,
+        this.server === 'ollama'
+          ? createUsage(parsed.prompt_eval_count, parsed.eval_count)
+          : createUsage(parsed.tokens_evaluated, parsed.tokens_predicted)
+      );
+
+      if (parsed.done || parsed.stop) return;
+    }
+  }
+
+  private buildBody(request: CompletionRequest, stream: boolean): { path: string; body: Record<string, unknown> } {
+    const { prefix: textBeforeCursor, suffix: textAfterCursor } = getRequestSegments(request);
+    const maxTokens = request.maxTokens || this.maxTokens;
+
+    if (this.server === 'ollama') {
+      const body: Record<string, unknown> = {
+        model: this.model,
+        stream,
+        options: { num_predict: maxTokens, temperature: 0.7 },
+      };
+
+      if (this.fim) {
+        // Ollama applies the model's own fill-in-the-middle template
+        body.prompt = this.buildFillInPrefix(request);
+        body.suffix = textAfterCursor;
+      } else if (this.raw) {
+        body.prompt = textBeforeCursor;
+        body.raw = true;
+      } else {
+        body.prompt = this.buildPrompt(request);
+        body.system = this.buildSystemPrompt(request);
+      }
+
+      return { path: '/api/generate', body };
+    }
+
+    if (this.fim) {
+      return {
+        path: '/infill',
+        body: {
+          input_prefix: this.buildFillInPrefix(request),
+          input_suffix: textAfterCursor,
+          n_predict: maxTokens,
+          temperature: 0.7,
+          stream,
+        },
+      };
+    }
+
+    return {
+      path: '/completion',
+      body: {
+        prompt: this.raw ? textBeforeCursor : `${this.buildSystemPrompt(request)}\n\n${this.buildPrompt(request)}\n`,
+        n_predict: maxTokens,
+        temperature: 0.7,
+        stream,
+      },
+    };
+  }
+
+  private async request(request: CompletionRequest, stream: boolean): Promise<Response> {
+    const { path, body } = this.buildBody(request, stream);
+
+    const response = await this.fetchWithRetry(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      const message = typeof error.error === 'string' ? error.error : error.error?.message;
+      throw new Error(message || `${this.name} server error: ${response.status}`);
+    }
+
+    return response;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const healthPath = this.server === 'ollama' ? '/api/version' : '/health';
+      const response = await fetch(`${this.baseUrl}${healthPath}`);
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+}
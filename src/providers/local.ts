@@ -1,22 +1,47 @@
 import type { CompletionRequest, CompletionResponse, LocalConfig, ProviderType } from '../types';
 import { BaseProvider } from './base';
+import { createUsage } from '../utils/usage';
+
+interface WebLLMChatOptions {
+  messages: Array<{ role: string; content: string }>;
+  max_tokens?: number;
+  temperature?: number;
+}
+
+interface WebLLMChatCompletion {
+  choices: Array<{
+    message: { content: string };
+    finish_reason: string;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+interface WebLLMChatCompletionChunk {
+  choices: Array<{
+    delta: { content?: string };
+    finish_reason: string | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
 
 interface WebLLMEngine {
   reload: (model: string) => Promise<void>;
+  interruptGenerate: () => void;
   generate: (prompt: string, options?: { max_tokens?: number }) => Promise<string>;
   chat: {
     completions: {
-      create: (options: {
-        messages: Array<{ role: string; content: string }>;
-        max_tokens?: number;
-        temperature?: number;
-        stream?: boolean;
-      }) => Promise<{
-        choices: Array<{
-          message: { content: string };
-          finish_reason: string;
-        }>;
-      }>;
+      create(options: WebLLMChatOptions & { stream?: false }): Promise<WebLLMChatCompletion>;
+      create(
+        options: WebLLMChatOptions & { stream: true; stream_options?: { include_usage: boolean } }
+      ): Promise<AsyncIterable<WebLLMChatCompletionChunk>>;
     };
   };
 }
@@ -33,15 +58,15 @@ export class LocalProvider extends BaseProvider {
   name = 'Local (WebLLM)';
   type: ProviderType = 'local';
 
-  private modelPath: string;
+  model: string;
   private engine: WebLLMEngine | null = null;
   private isInitializing = false;
   private initPromise: Promise<void> | null = null;
   private onProgress?: (progress: { text: string; progress: number }) => void;
 
   constructor(config: LocalConfig & { onProgress?: (progress: { text: string; progress: number }) => void }) {
-    super(config.systemPrompt, config.maxTokens);
-    this.modelPath = config.modelPath || 'Llama-3.2-1B-Instruct-q4f16_1-MLC';
+    super(config.systemPrompt, config.maxTokens, config);
+    this.model = config.modelPath || 'Llama-3.2-1B-Instruct-q4f16_1-MLC';
     this.onProgress = config.onProgress;
   }
 
@@ -63,7 +88,7 @@ export class LocalProvider extends BaseProvider {
 
     this.initPromise = (async () => {
       try {
-        this.engine = await window.webllm!.CreateMLCEngine(this.modelPath, {
+        this.engine = await window.webllm!.CreateMLCEngine(this.model, {
           initProgressCallback: this.onProgress,
         });
       } finally {
@@ -75,29 +100,92 @@ export class LocalProvider extends BaseProvider {
   }
 
   async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    if ((request.candidateCount ?? 1) > 1) {
+      return this.completeInParallel(request, (single) => this.complete(single));
+    }
+
+    const engine = await this.getEngine();
+    request.signal?.throwIfAborted();
+
+    const release = this.interruptOnAbort(engine, request.signal);
+    let response;
+    try {
+      response = await engine.chat.completions.create({
+        ...this.buildChatOptions(request),
+        stream: false,
+      });
+    } finally {
+      release();
+    }
+
+    // WebLLM resolves with partial output when interrupted
+    request.signal?.throwIfAborted();
+
+    const completion = this.postProcess(response.choices?.[0]?.message?.content || '', request);
+
+    return {
+      completion,
+      confidence: response.choices?.[0]?.finish_reason === 'stop' ? 1 : 0.8,
+      usage: createUsage(response.usage?.prompt_tokens, response.usage?.completion_tokens, response.usage?.total_tokens),
+    };
+  }
+
+  async *completeStream(request: CompletionRequest): AsyncGenerator<string> {
+    const engine = await this.getEngine();
+    request.signal?.throwIfAborted();
+
+    const release = this.interruptOnAbort(engine, request.signal);
+    try {
+      const chunks = await engine.chat.completions.create({
+        ...this.buildChatOptions(request),
+        stream: true,
+        // The last chunk then carries the token usage
+        stream_options: { include_usage: true },
+      });
+
+      for await (const chunk of chunks) {
+        request.signal?.throwIfAborted();
+        const token = chunk.choices?.[0]?.delta?.content;
+        if (token) yield token;
+        this.reportUsage(
+          request,
+          createUsage(chunk.usage?.prompt_tokens, chunk.usage?.completion_tokens, chunk.usage?.total_tokens)
+        );
+      }
+    } finally {
+      release();
+    }
+  }
+
+  // WebLLM has no signal support, so aborting interrupts the running generation
+  private interruptOnAbort(engine: WebLLMEngine, signal?: AbortSignal): () => void {
+    if (!signal) return () => {};
+
+    const onAbort = () => engine.interruptGenerate();
+    signal.addEventListener('abort', onAbort, { once: true });
+    return () => signal.removeEventListener('abort', onAbort);
+  }
+
+  private async getEngine(): Promise<WebLLMEngine> {
     await this.initializeEngine();
 
     if (!this.engine) {
       throw new Error('Failed to initialize WebLLM engine');
     }
 
+    return this.engine;
+  }
+
+  private buildChatOptions(request: CompletionRequest): WebLLMChatOptions {
     const prompt = this.buildPrompt(request);
 
-    const response = await this.engine.chat.completions.create({
+    return {
       messages: [
-        { role: 'system', content: this.systemPrompt },
+        { role: 'system', content: this.buildSystemPrompt(request) },
         { role: 'user', content: prompt },
       ],
       max_tokens: request.maxTokens || this.maxTokens,
       temperature: 0.7,
-      stream: false,
-    });
-
-    const completion = response.choices?.[0]?.message?.content?.trim() || '';
-
-    return {
-      completion,
-      confidence: response.choices?.[0]?.finish_reason === 'stop' ? 1 : 0.8,
     };
   }
 
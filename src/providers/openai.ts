@@ -1,25 +1,61 @@
 import type { CompletionRequest, CompletionResponse, OpenAIConfig, ProviderType } from '../types';
 import { BaseProvider } from './base';
+import { createUsage } from '../utils/usage';
+import { getRequestSegments } from '../utils/request';
 
 export class OpenAIProvider extends BaseProvider {
   name = 'OpenAI';
   type: ProviderType = 'openai';
 
   private apiKey: string;
-  private model: string;
-  private baseUrl: string;
+  model: string;
+  baseUrl: string;
 
   constructor(config: OpenAIConfig) {
-    super(config.systemPrompt, config.maxTokens);
+    super(config.systemPrompt, config.maxTokens, config);
     this.apiKey = config.apiKey;
-    this.model = config.model || 'gpt-4o-mini';
+    // Fill-in-the-middle uses the legacy completions endpoint, which chat models do not serve
+    this.model = config.model || (config.fim ? 'gpt-3.5-turbo-instruct' : 'gpt-4o-mini');
     this.baseUrl = config.baseUrl || 'https://api.openai.com/v1';
   }
 
   async complete(request: CompletionRequest): Promise<CompletionResponse> {
-    const prompt = this.buildPrompt(request);
+    const response = await this.request(request, false);
+    const data = await response.json();
+    const candidates = this.toCandidates(
+      (data.choices ?? []).map((choice: { message?: { content?: string }; text?: string }) =>
+        this.postProcess(choice.message?.content ?? choice.text ?? '', request)
+      )
+    );
+
+    return {
+      completion: candidates[0] ?? '',
+      candidates,
+      confidence: data.choices?.[0]?.finish_reason === 'stop' ? 1 : 0.8,
+      usage: createUsage(data.usage?.prompt_tokens, data.usage?.completion_tokens, data.usage?.total_tokens),
+    };
+  }
 
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+  async *completeStream(request: CompletionRequest): AsyncGenerator<string> {
+    const response = await this.request(request, true);
+
+    for await (const data of this.readEventStream(response)) {
+      try {
+        const parsed = JSON.parse(data);
+        const token = parsed.choices?.[0]?.delta?.content ?? parsed.choices?.[0]?.text;
+        if (token) yield token;
+        this.reportUsage(
+          request,
+          createUsage(parsed.usage?.prompt_tokens, parsed.usage?.completion_tokens, parsed.usage?.total_tokens)
+        );
+      } catch {
+        // Skip invalid JSON
+      }
+    }
+  }
+
+  private async request(request: CompletionRequest, stream: boolean): Promise<Response> {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/${this.fim ? 'completions' : 'chat/completions'}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -27,14 +63,15 @@ export class OpenAIProvider extends BaseProvider {
       },
       body: JSON.stringify({
         model: this.model,
-        messages: [
-          { role: 'system', content: this.systemPrompt },
-          { role: 'user', content: prompt },
-        ],
+        ...this.buildInput(request),
         max_tokens: request.maxTokens || this.maxTokens,
         temperature: 0.7,
-        stream: false,
+        n: stream ? undefined : request.candidateCount,
+        stream,
+        // The last chunk then carries the token usage
+        stream_options: stream ? { include_usage: true } : undefined,
       }),
+      signal: request.signal,
     });
 
     if (!response.ok) {
@@ -42,12 +79,24 @@ export class OpenAIProvider extends BaseProvider {
       throw new Error(error.error?.message || `OpenAI API error: ${response.status}`);
     }
 
-    const data = await response.json();
-    const completion = data.choices?.[0]?.message?.content?.trim() || '';
+    return response;
+  }
+
+  /**
+   * In FIM mode the legacy completions endpoint takes the suffix natively;
+   * it needs a completions model such as `gpt-3.5-turbo-instruct`.
+   */
+  private buildInput(request: CompletionRequest): Record<string, unknown> {
+    if (this.fim) {
+      const { suffix } = getRequestSegments(request);
+      return { prompt: this.buildFillInPrefix(request), suffix: suffix || undefined };
+    }
 
     return {
-      completion,
-      confidence: data.choices?.[0]?.finish_reason === 'stop' ? 1 : 0.8,
+      messages: [
+        { role: 'system', content: this.buildSystemPrompt(request) },
+        { role: 'user', content: this.buildPrompt(request) },
+      ],
     };
   }
 
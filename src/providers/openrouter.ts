@@ -1,17 +1,18 @@
 import type { CompletionRequest, CompletionResponse, OpenRouterConfig, ProviderType } from '../types';
 import { BaseProvider } from './base';
+import { createUsage } from '../utils/usage';
 
 export class OpenRouterProvider extends BaseProvider {
   name = 'OpenRouter';
   type: ProviderType = 'openrouter';
 
   private apiKey: string;
-  private model: string;
+  model: string;
   private siteUrl?: string;
   private siteName?: string;
 
   constructor(config: OpenRouterConfig) {
-    super(config.systemPrompt, config.maxTokens);
+    super(config.systemPrompt, config.maxTokens, config);
     this.apiKey = config.apiKey;
     this.model = config.model || 'openai/gpt-4o-mini';
     this.siteUrl = config.siteUrl;
@@ -19,6 +20,39 @@ export class OpenRouterProvider extends BaseProvider {
   }
 
   async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const response = await this.request(request, false);
+    const data = await response.json();
+    const candidates = this.toCandidates(
+      (data.choices ?? []).map((choice: { message?: { content?: string } }) => this.postProcess(choice.message?.content || '', request))
+    );
+
+    return {
+      completion: candidates[0] ?? '',
+      candidates,
+      confidence: data.choices?.[0]?.finish_reason === 'stop' ? 1 : 0.8,
+      usage: createUsage(data.usage?.prompt_tokens, data.usage?.completion_tokens, data.usage?.total_tokens),
+    };
+  }
+
+  async *completeStream(request: CompletionRequest): AsyncGenerator<string> {
+    const response = await this.request(request, true);
+
+    for await (const data of this.readEventStream(response)) {
+      try {
+        const parsed = JSON.parse(data);
+        const token = parsed.choices?.[0]?.delta?.content;
+        if (token) yield token;
+        this.reportUsage(
+          request,
+          createUsage(parsed.usage?.prompt_tokens, parsed.usage?.completion_tokens, parsed.usage?.total_tokens)
+        );
+      } catch {
+        // Skip invalid JSON and OpenRouter keep-alive comments
+      }
+    }
+  }
+
+  private async request(request: CompletionRequest, stream: boolean): Promise<Response> {
     const prompt = this.buildPrompt(request);
 
     const headers: Record<string, string> = {
@@ -33,18 +67,23 @@ export class OpenRouterProvider extends BaseProvider {
       headers['X-Title'] = this.siteName;
     }
 
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
+    const response = await this.fetchWithRetry('https://openrouter.ai/api/v1/chat/completions', {
       method: 'POST',
       headers,
       body: JSON.stringify({
         model: this.model,
         messages: [
-          { role: 'system', content: this.systemPrompt },
+          { role: 'system', content: this.buildSystemPrompt(request) },
           { role: 'user', content: prompt },
         ],
         max_tokens: request.maxTokens || this.maxTokens,
         temperature: 0.7,
+        n: stream ? undefined : request.candidateCount,
+        stream,
+        // The last chunk then carries the token usage
+        stream_options: stream ? { include_usage: true } : undefined,
       }),
+      signal: request.signal,
     });
 
     if (!response.ok) {
@@ -52,13 +91,7 @@ export class OpenRouterProvider extends BaseProvider {
       throw new Error(error.error?.message || `OpenRouter API error: ${response.status}`);
     }
 
-    const data = await response.json();
-    const completion = data.choices?.[0]?.message?.content?.trim() || '';
-
-    return {
-      completion,
-      confidence: data.choices?.[0]?.finish_reason === 'stop' ? 1 : 0.8,
-    };
+    return response;
   }
 
   async isAvailable(): Promise<boolean> {
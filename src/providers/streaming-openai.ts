@@ -1,5 +1,11 @@
 import type { CompletionRequest, CompletionResponse, OpenAIConfig, ProviderType } from '../types';
 import { BaseProvider } from './base';
+import { createUsage } from '../utils/usage';
+import { getPromptVariables, renderPromptTemplate } from '../utils/prompt';
+import type { PromptVariables } from '../utils/prompt';
+
+// Only the text itself, with any context and a marker when there is text after the cursor
+const MINIMAL_PROMPT_TEMPLATE = '{{#context}}Context: {{context}}\n\n{{/context}}{{before}}{{#after}}[CURSOR]{{after}}{{/after}}';
 
 export interface StreamingCallbacks {
   onToken?: (token: string) => void;
@@ -12,12 +18,12 @@ export class StreamingOpenAIProvider extends BaseProvider {
   type: ProviderType = 'openai';
 
   private apiKey: string;
-  private model: string;
-  private baseUrl: string;
+  model: string;
+  baseUrl: string;
   private abortController: AbortController | null = null;
 
   constructor(config: OpenAIConfig) {
-    super(config.systemPrompt, config.maxTokens);
+    super(config.systemPrompt, config.maxTokens, config);
     this.apiKey = config.apiKey;
     this.model = config.model || 'gpt-4o-mini';
     this.baseUrl = config.baseUrl || 'https://api.openai.com/v1';
@@ -34,64 +40,12 @@ export class StreamingOpenAIProvider extends BaseProvider {
     request: CompletionRequest,
     callbacks: StreamingCallbacks
   ): Promise<void> {
-    this.abort();
-    this.abortController = new AbortController();
-
-    const prompt = this.buildMinimalPrompt(request);
-
     try {
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: this.model,
-          messages: [
-            { role: 'system', content: this.getMinimalSystemPrompt() },
-            { role: 'user', content: prompt },
-          ],
-          max_tokens: request.maxTokens || this.maxTokens,
-          temperature: 0.7,
-          stream: true,
-        }),
-        signal: this.abortController.signal,
-      });
-
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({}));
-        throw new Error(error.error?.message || `API error: ${response.status}`);
-      }
-
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error('No response body');
-
-      const decoder = new TextDecoder();
       let fullText = '';
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n').filter((line) => line.startsWith('data: '));
-
-        for (const line of lines) {
-          const data = line.slice(6);
-          if (data === '[DONE]') continue;
-
-          try {
-            const parsed = JSON.parse(data);
-            const token = parsed.choices?.[0]?.delta?.content || '';
-            if (token) {
-              fullText += token;
-              callbacks.onToken?.(token);
-            }
-          } catch {
-            // Skip invalid JSON
-          }
-        }
+      for await (const token of this.completeStream(request)) {
+        fullText += token;
+        callbacks.onToken?.(token);
       }
 
       callbacks.onComplete?.(fullText);
@@ -102,29 +56,97 @@ export class StreamingOpenAIProvider extends BaseProvider {
     }
   }
 
-  private getMinimalSystemPrompt(): string {
-    return `Complete the text naturally. Return ONLY the completion (1 sentence max). No explanations.`;
+  async *completeStream(request: CompletionRequest): AsyncGenerator<string> {
+    const signal = this.startRequest(request.signal);
+    const prompt = this.buildMinimalPrompt(request);
+
+    const response = await this.fetchWithRetry(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          { role: 'system', content: this.buildSystemPrompt(request) },
+          { role: 'user', content: prompt },
+        ],
+        max_tokens: request.maxTokens || this.maxTokens,
+        temperature: 0.7,
+        stream: true,
+        // The last chunk then carries the token usage
+        stream_options: { include_usage: true },
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error?.message || `API error: ${response.status}`);
+    }
+
+    for await (const data of this.readEventStream(response)) {
+      try {
+        const parsed = JSON.parse(data);
+        const token = parsed.choices?.[0]?.delta?.content;
+        if (token) yield token;
+        this.reportUsage(
+          request,
+          createUsage(parsed.usage?.prompt_tokens, parsed.usage?.completion_tokens, parsed.usage?.total_tokens)
+        );
+      } catch {
+        // Skip invalid JSON
+      }
+    }
+  }
+
+  // Aborts the previous request and links the caller's signal to the new one
+  private startRequest(callerSignal?: AbortSignal): AbortSignal {
+    this.abort();
+    const controller = new AbortController();
+    this.abortController = controller;
+
+    if (callerSignal?.aborted) {
+      controller.abort();
+    } else {
+      callerSignal?.addEventListener('abort', () => controller.abort(), { once: true });
+    }
+
+    return controller.signal;
   }
 
-  private buildMinimalPrompt(request: CompletionRequest): string {
-    const textBeforeCursor = request.text.substring(0, request.cursorPosition);
+  protected getDefaultSystemPrompt(): string {
+    return `{{#after}}Fill in the text at [CURSOR]. Return ONLY the inserted text (1 sentence max). Do not repeat the text after [CURSOR]. No explanations.{{/after}}{{^after}}Complete the text naturally. Return ONLY the completion (1 sentence max). No explanations.{{/after}}`;
+  }
+
+  protected getPromptVariables(request: CompletionRequest): PromptVariables {
+    const variables = getPromptVariables(request);
+    const before = variables.before ?? '';
+    const after = variables.after ?? '';
 
     // Sadece son 500 karakter (yaklaşık son 2-3 cümle)
     const contextLength = 500;
-    const context = textBeforeCursor.length > contextLength
-      ? '...' + textBeforeCursor.slice(-contextLength)
-      : textBeforeCursor;
+    // İmleçten sonraki metnin ilk 200 karakteri
+    const suffixLength = 200;
+
+    return {
+      ...variables,
+      before: before.length > contextLength ? '...' + before.slice(-contextLength) : before,
+      after: after.length > suffixLength ? after.slice(0, suffixLength) + '...' : after,
+    };
+  }
 
-    return context;
+  private buildMinimalPrompt(request: CompletionRequest): string {
+    const template = request.promptTemplate?.user ?? this.promptTemplate.user ?? MINIMAL_PROMPT_TEMPLATE;
+    return renderPromptTemplate(template, this.getPromptVariables(request));
   }
 
   async complete(request: CompletionRequest): Promise<CompletionResponse> {
-    this.abort();
-    this.abortController = new AbortController();
-
+    const signal = this.startRequest(request.signal);
     const prompt = this.buildMinimalPrompt(request);
 
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/chat/completions`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -133,14 +155,15 @@ export class StreamingOpenAIProvider extends BaseProvider {
       body: JSON.stringify({
         model: this.model,
         messages: [
-          { role: 'system', content: this.getMinimalSystemPrompt() },
+          { role: 'system', content: this.buildSystemPrompt(request) },
           { role: 'user', content: prompt },
         ],
         max_tokens: request.maxTokens || this.maxTokens,
         temperature: 0.7,
+        n: request.candidateCount,
         stream: false,
       }),
-      signal: this.abortController.signal,
+      signal,
     });
 
     if (!response.ok) {
@@ -149,9 +172,15 @@ export class StreamingOpenAIProvider extends BaseProvider {
     }
 
     const data = await response.json();
-    const completion = data.choices?.[0]?.message?.content?.trim() || '';
-
-    return { completion };
+    const candidates = this.toCandidates(
+      (data.choices ?? []).map((choice: { message?: { content?: string } }) => this.postProcess(choice.message?.content || '', request))
+    );
+
+    return {
+      completion: candidates[0] ?? '',
+      candidates,
+      usage: createUsage(data.usage?.prompt_tokens, data.usage?.completion_tokens, data.usage?.total_tokens),
+    };
   }
 
   async isAvailable(): Promise<boolean> {
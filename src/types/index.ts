@@ -1,24 +1,89 @@
-export type ProviderType = 'openai' | 'gemini' | 'openrouter' | 'local' | 'custom';
+import type { CompletionBudget } from '../utils/budget';
+import type { CompletionCache } from '../utils/cache';
+import type { FieldRegistry } from '../utils/fields';
+import type { CompletionTransform } from '../utils/transforms';
+
+export type ProviderType = 'openai' | 'gemini' | 'openrouter' | 'anthropic' | 'local' | 'local-server' | 'custom' | 'fallback';
 
 export interface CompletionRequest {
   text: string;
   cursorPosition: number;
+  prefix?: string;
+  suffix?: string;
   context?: string;
+  field?: CompletionField;
+  promptTemplate?: PromptTemplate;
   maxTokens?: number;
+  candidateCount?: number;
+  signal?: AbortSignal;
+  /** Receives the token usage a stream reports so far; each call replaces the last */
+  onUsage?: (usage: CompletionUsage) => void;
+  /** Receives the provider that serves a stream, before its first chunk */
+  onServedBy?: (servedBy: ServedBy) => void;
+}
+
+/** Describes the input being completed, for prompt templates */
+export interface CompletionField {
+  name?: string;
+  label?: string;
+  placeholder?: string;
+  language?: string;
+}
+
+/**
+ * Prompt text with `{{before}}`, `{{after}}`, `{{context}}`, `{{language}}`,
+ * `{{fieldName}}`, `{{fieldLabel}}` and `{{placeholder}}` variables.
+ */
+export interface PromptTemplate {
+  system?: string;
+  user?: string;
+}
+
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/** The provider that actually answered, e.g. a member of a fallback chain */
+export interface ServedBy {
+  name: string;
+  type: ProviderType;
+  model?: string;
+  baseUrl?: string;
 }
 
 export interface CompletionResponse {
   completion: string;
+  candidates?: string[];
   confidence?: number;
+  usage?: CompletionUsage;
+  servedBy?: ServedBy;
 }
 
 export interface AIProvider {
   name: string;
   type: ProviderType;
+  model?: string;
+  /** API endpoint of providers that talk to a configurable server */
+  baseUrl?: string;
+  systemPrompt?: string;
   complete(request: CompletionRequest): Promise<CompletionResponse>;
+  completeStream?(request: CompletionRequest): AsyncIterable<string>;
+  postProcess?(completion: string, request: CompletionRequest): string;
+  /** Provider chains return the member the next request goes to first */
+  resolveProvider?(): ServedBy;
   isAvailable(): Promise<boolean>;
 }
 
+export interface RetryPolicy {
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  backoffFactor?: number;
+  jitter?: boolean;
+}
+
 export interface ProviderConfig {
   type: ProviderType;
   apiKey?: string;
@@ -26,6 +91,10 @@ export interface ProviderConfig {
   baseUrl?: string;
   systemPrompt?: string;
   maxTokens?: number;
+  retry?: RetryPolicy;
+  transforms?: CompletionTransform[];
+  fim?: boolean;
+  promptTemplate?: PromptTemplate;
 }
 
 export interface OpenAIConfig extends ProviderConfig {
@@ -49,32 +118,67 @@ export interface OpenRouterConfig extends ProviderConfig {
   siteName?: string;
 }
 
+export interface AnthropicConfig extends ProviderConfig {
+  type: 'anthropic';
+  apiKey: string;
+  model?: string;
+  baseUrl?: string;
+  apiVersion?: string;
+}
+
 export interface LocalConfig extends ProviderConfig {
   type: 'local';
   modelPath?: string;
   wasmPath?: string;
 }
 
+export interface LocalServerConfig extends ProviderConfig {
+  type: 'local-server';
+  server?: 'ollama' | 'llamacpp';
+  model?: string;
+  baseUrl?: string;
+  raw?: boolean;
+}
+
 export interface CustomProviderConfig extends ProviderConfig {
   type: 'custom';
   handler: (request: CompletionRequest) => Promise<CompletionResponse>;
+  streamHandler?: (request: CompletionRequest) => AsyncIterable<string>;
+}
+
+export interface FallbackConfig extends ProviderConfig {
+  type: 'fallback';
+  providers: AnyProviderConfig[];
+  cooldownMs?: number;
 }
 
 export type AnyProviderConfig =
   | OpenAIConfig
   | GeminiConfig
   | OpenRouterConfig
+  | AnthropicConfig
   | LocalConfig
-  | CustomProviderConfig;
+  | LocalServerConfig
+  | CustomProviderConfig
+  | FallbackConfig;
+
+export type CompletionAcceptUnit = 'word' | 'line';
+
+/** Inline ghost text, or a list of suggestions at the caret */
+export type CompletionDisplayMode = 'ghost' | 'popup';
 
 export interface AutocompleteContextValue {
   provider: AIProvider | null;
   isLoading: boolean;
   error: Error | null;
   setProvider: (config: AnyProviderConfig) => void;
+  budget: CompletionBudget | null;
+  cache: CompletionCache | null;
+  fields: FieldRegistry | null;
 }
 
-export interface AutocompleteTextareaProps extends Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, 'onChange'> {
+/** Autocomplete props shared by the textarea and input components */
+export interface AutocompleteFieldProps {
   value: string;
   onChange: (value: string) => void;
   debounceMs?: number;
@@ -83,10 +187,103 @@ export interface AutocompleteTextareaProps extends Omit<React.TextareaHTMLAttrib
   dismissKey?: string;
   showGhostText?: boolean;
   completionClassName?: string;
+  acceptWordKey?: string;
+  acceptLineKey?: string;
   onCompletionAccept?: (completion: string) => void;
+  onPartialAccept?: (accepted: string, remaining: string) => void;
   onCompletionDismiss?: () => void;
   disabled?: boolean;
   triggerOnSentenceEnd?: boolean;
+  streaming?: boolean;
+  candidateCount?: number;
+  nextCandidateKey?: string;
+  prevCandidateKey?: string;
+  budget?: CompletionBudget | BudgetOptions;
+  onBudgetExceeded?: (status: BudgetStatus) => void;
+  promptTemplate?: PromptTemplate;
+  context?: string;
+  getContext?: () => string | undefined;
+  displayMode?: CompletionDisplayMode;
+  touchMode?: boolean | 'auto';
+}
+
+export interface AutocompleteTextareaProps
+  extends Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, 'onChange' | 'value'>,
+    AutocompleteFieldProps {}
+
+export interface AutocompleteInputProps
+  extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'onChange' | 'value'>,
+    AutocompleteFieldProps {}
+
+/** Props of the optimized components that replace the debounce options */
+export interface OptimizedAutocompleteProps {
+  /** Minimum pause before triggering completion (ms) */
+  pauseThreshold?: number;
+  /** Minimum characters before triggering */
+  minChars?: number;
+  /** Cooldown between API calls (ms) */
+  cooldown?: number;
+  /** Only trigger at natural breakpoints (space, punctuation) */
+  triggerAtBreakpoints?: boolean;
+  /** Enable completion caching */
+  enableCache?: boolean;
+  /** Cache instance to use instead of the provider's or the global one */
+  cache?: CompletionCache;
+  /** Show stats overlay */
+  showStats?: boolean;
+}
+
+/** Textarea props the optimized components do not support */
+export type DebouncedOnlyProps =
+  | 'debounceMs'
+  | 'minCharsForCompletion'
+  | 'triggerOnSentenceEnd'
+  | 'candidateCount'
+  | 'nextCandidateKey'
+  | 'prevCandidateKey'
+  | 'displayMode';
+
+export interface SharedContextOptions {
+  /** Fields whose content is shared, or a predicate over (field, field being completed) */
+  include?: string[] | ((name: string, target?: string) => boolean);
+  /** Fields that are never shared */
+  exclude?: string[];
+  /** Labels by field name; defaults to the field's aria-label, then its name */
+  labels?: Record<string, string>;
+  /** Characters kept from each field (default 1000) */
+  maxFieldLength?: number;
+  /** Characters of shared context per request (default 4000) */
+  maxLength?: number;
+}
+
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface BudgetOptions {
+  maxCalls?: number;
+  maxTokens?: number;
+  maxCost?: number;
+  pricing?: Record<string, ModelPricing>;
+  period?: 'session' | 'day';
+  storageKey?: string;
+}
+
+export interface BudgetStatus {
+  calls: number;
+  tokens: number;
+  cost: number;
+  exceeded: boolean;
+  exceededBy?: 'calls' | 'tokens' | 'cost';
+}
+
+export interface AutocompleteStats {
+  apiCalls: number;
+  cacheHits: number;
+  tokensUsed: number;
+  promptTokens: number;
+  completionTokens: number;
 }
 
 export interface UseAutocompleteOptions {
@@ -94,13 +291,26 @@ export interface UseAutocompleteOptions {
   minCharsForCompletion?: number;
   triggerOnSentenceEnd?: boolean;
   enabled?: boolean;
+  streaming?: boolean;
+  candidateCount?: number;
+  budget?: CompletionBudget | BudgetOptions | null;
+  onBudgetExceeded?: (status: BudgetStatus) => void;
+  promptTemplate?: PromptTemplate;
+  field?: CompletionField;
+  context?: string;
+  getContext?: () => string | undefined;
 }
 
 export interface UseAutocompleteReturn {
   completion: string | null;
+  candidates: string[];
+  candidateIndex: number;
   isLoading: boolean;
   error: Error | null;
   acceptCompletion: () => string;
+  acceptPartialCompletion: (unit: CompletionAcceptUnit) => string;
   dismissCompletion: () => void;
   requestCompletion: (text: string, cursorPosition: number) => void;
+  cycleCandidate: (direction: 1 | -1) => void;
+  selectCandidate: (index: number) => void;
 }
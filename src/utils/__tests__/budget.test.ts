@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CompletionBudget } from '../budget';
+
+const usage = (promptTokens: number, completionTokens: number) => ({
+  promptTokens,
+  completionTokens,
+  totalTokens: promptTokens + completionTokens,
+});
+
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    removeItem: (key) => items.delete(key),
+    setItem: (key, value) => items.set(key, value),
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe('CompletionBudget', () => {
+  it('stops requests once maxCalls is reached', () => {
+    const budget = new CompletionBudget({ maxCalls: 2 });
+
+    budget.record(usage(10, 5));
+    expect(budget.canRequest()).toBe(true);
+
+    const status = budget.record(usage(10, 5));
+    expect(status).toMatchObject({ calls: 2, tokens: 30, exceeded: true, exceededBy: 'calls' });
+    expect(budget.canRequest()).toBe(false);
+  });
+
+  it('counts tokens against maxTokens', () => {
+    const budget = new CompletionBudget({ maxTokens: 100 });
+
+    budget.record(usage(60, 40));
+    expect(budget.getStatus()).toMatchObject({ tokens: 100, exceededBy: 'tokens' });
+  });
+
+  it('prices usage by exact model or longest prefix', () => {
+    const budget = new CompletionBudget({
+      pricing: {
+        'gpt-4o': { inputPerMillion: 2, outputPerMillion: 8 },
+        'gpt-4o-mini': { inputPerMillion: 1, outputPerMillion: 4 },
+      },
+    });
+
+    expect(budget.estimateCost(usage(1_000_000, 0), 'gpt-4o')).toBe(2);
+    expect(budget.estimateCost(usage(0, 1_000_000), 'gpt-4o-mini-2024-07-18')).toBe(4);
+    expect(budget.estimateCost(usage(1_000_000, 0), 'claude-3-haiku')).toBe(0);
+    expect(budget.estimateCost(usage(1_000_000, 0), undefined)).toBe(0);
+  });
+
+  it('stops at maxCost', () => {
+    const budget = new CompletionBudget({
+      maxCost: 1,
+      pricing: { 'gpt-4o': { inputPerMillion: 2, outputPerMillion: 8 } },
+    });
+
+    budget.record(usage(500_000, 0), 'gpt-4o');
+    expect(budget.getStatus()).toMatchObject({ cost: 1, exceededBy: 'cost' });
+  });
+
+  it('notifies listeners once when exceeded', () => {
+    const budget = new CompletionBudget({ maxCalls: 1 });
+    const listener = vi.fn();
+    budget.subscribe(listener);
+
+    budget.record(undefined);
+    budget.canRequest();
+    budget.canRequest();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ exceededBy: 'calls' }));
+  });
+
+  it('keeps usage when options change and notifies again after raised limits run out', () => {
+    const budget = new CompletionBudget({ maxCalls: 1 });
+    const listener = vi.fn();
+    budget.subscribe(listener);
+
+    budget.record(undefined);
+    budget.setOptions({ maxCalls: 2 });
+    expect(budget.canRequest()).toBe(true);
+    expect(budget.getStatus().calls).toBe(1);
+
+    budget.record(undefined);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('starts over after reset', () => {
+    const budget = new CompletionBudget({ maxCalls: 1 });
+
+    budget.record(usage(1, 1));
+    budget.reset();
+    expect(budget.getStatus()).toMatchObject({ calls: 0, tokens: 0, exceeded: false });
+  });
+
+  it('shares a daily budget through localStorage and starts a new one the next day', () => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 0, 1, 12));
+
+    new CompletionBudget({ period: 'day', storageKey: 'test-budget' }).record(usage(5, 5));
+    expect(new CompletionBudget({ period: 'day', storageKey: 'test-budget' }).getStatus().calls).toBe(1);
+
+    vi.setSystemTime(new Date(2024, 0, 2, 12));
+    expect(new CompletionBudget({ period: 'day', storageKey: 'test-budget' }).getStatus().calls).toBe(0);
+  });
+});
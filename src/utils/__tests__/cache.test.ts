@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CompletionCache, getProviderScope } from '../cache';
+import type { CacheScope } from '../cache';
+import type { CacheEntry, CacheStorageAdapter } from '../cache-storage';
+
+const scope: CacheScope = { provider: 'openai', endpoint: 'https://api.openai.com/v1', model: 'gpt-4o-mini' };
+
+// Any adapter other than the in-memory store counts as persistent
+class PersistentStorage implements CacheStorageAdapter {
+  private store = new Map<string, CacheEntry>();
+
+  async get(key: string) {
+    return this.store.get(key);
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    this.store.set(key, entry);
+  }
+
+  async delete(key: string) {
+    this.store.delete(key);
+  }
+
+  async clear() {
+    this.store.clear();
+  }
+
+  async entries() {
+    return Array.from(this.store.entries());
+  }
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('CompletionCache keys', () => {
+  it('returns a completion stored for the same text and scope', async () => {
+    const cache = new CompletionCache();
+    await cache.set('Hello wor', 9, 'ld', scope);
+
+    expect(await cache.get('Hello wor', 9, scope)).toBe('ld');
+  });
+
+  it('keeps backends, models and fields apart', async () => {
+    const cache = new CompletionCache();
+    await cache.set('Hello wor', 9, 'ld', { ...scope, fieldId: 'subject' });
+
+    expect(await cache.get('Hello wor', 9, { ...scope, fieldId: 'body' })).toBeNull();
+    expect(await cache.get('Hello wor', 9, { ...scope, fieldId: 'subject', model: 'gpt-4o' })).toBeNull();
+    expect(await cache.get('Hello wor', 9, { ...scope, fieldId: 'subject', endpoint: 'http://localhost:8080/v1' })).toBeNull();
+    expect(await cache.get('Hello wor', 9, { ...scope, fieldId: 'subject' })).toBe('ld');
+  });
+
+  it('keeps different context and text after the cursor apart', async () => {
+    const cache = new CompletionCache();
+    await cache.set('Dear  Bob', 5, 'Mr.', { ...scope, context: 'formal' });
+
+    expect(await cache.get('Dear  Bob', 5, { ...scope, context: 'casual' })).toBeNull();
+    expect(await cache.get('Dear  Alice', 5, { ...scope, context: 'formal' })).toBeNull();
+  });
+
+  it('derives the backend scope from the serving provider', () => {
+    expect(getProviderScope({ name: 'Custom', type: 'custom' })).toEqual({
+      provider: 'custom',
+      endpoint: 'Custom',
+      model: undefined,
+    });
+    expect(getProviderScope({ name: 'OpenAI', type: 'openai', model: 'gpt-4o', baseUrl: 'https://proxy/v1' })).toEqual({
+      provider: 'openai',
+      endpoint: 'https://proxy/v1',
+      model: 'gpt-4o',
+    });
+  });
+});
+
+describe('CompletionCache prefix lookup', () => {
+  it('serves the rest of a cached completion the user is typing out', async () => {
+    const cache = new CompletionCache();
+    await cache.set('Hello wor', 9, 'ld peace', scope);
+
+    expect(await cache.getByPrefix('Hello worl', 10, scope)).toBe('d peace');
+  });
+
+  it('misses when the typed text leaves the cached completion', async () => {
+    const cache = new CompletionCache();
+    await cache.set('Hello wor', 9, 'ld peace', scope);
+
+    expect(await cache.getByPrefix('Hello work', 10, scope)).toBeNull();
+  });
+});
+
+describe('CompletionCache eviction', () => {
+  it('evicts the least recently used entry at capacity', async () => {
+    const cache = new CompletionCache(2);
+    await cache.set('first text', 10, 'a', scope);
+    await cache.set('second text', 11, 'b', scope);
+
+    // Reading the first entry makes the second the least recently used
+    await cache.get('first text', 10, scope);
+    await cache.set('third text', 10, 'c', scope);
+
+    expect(await cache.get('first text', 10, scope)).toBe('a');
+    expect(await cache.get('second text', 11, scope)).toBeNull();
+    expect(await cache.get('third text', 10, scope)).toBe('c');
+  });
+
+  it('drops expired entries', async () => {
+    vi.useFakeTimers();
+    const cache = new CompletionCache(50, 1000);
+    await cache.set('some text', 9, 'more', scope);
+
+    vi.advanceTimersByTime(1001);
+    expect(await cache.get('some text', 9, scope)).toBeNull();
+  });
+
+  it('keeps entries of persistent storage longer by default', async () => {
+    vi.useFakeTimers();
+    const memory = new CompletionCache();
+    const persistent = new CompletionCache(50, undefined, new PersistentStorage());
+    await memory.set('some text', 9, 'more', scope);
+    await persistent.set('some text', 9, 'more', scope);
+
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    expect(await memory.get('some text', 9, scope)).toBeNull();
+    expect(await persistent.get('some text', 9, scope)).toBe('more');
+  });
+
+  it('finds persisted entries from a new cache instance', async () => {
+    const storage = new PersistentStorage();
+    await new CompletionCache(50, undefined, storage).set('some text', 9, 'more', scope);
+
+    expect(await new CompletionCache(50, undefined, storage).getByPrefix('some text', 9, scope)).toBe('more');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { getCompletionField, getPromptVariables, renderPromptTemplate } from '../prompt';
+
+describe('renderPromptTemplate', () => {
+  it('fills variables and renders unknown ones empty', () => {
+    expect(renderPromptTemplate('{{before}}|{{ after }}|{{missing}}', { before: 'a', after: 'b' })).toBe('a|b|');
+  });
+
+  it('keeps a section only when its variable is not blank', () => {
+    const template = '{{#context}}Context: {{context}}\n{{/context}}Text: {{before}}';
+
+    expect(renderPromptTemplate(template, { context: 'thread', before: 'Hi' })).toBe('Context: thread\nText: Hi');
+    expect(renderPromptTemplate(template, { context: '  ', before: 'Hi' })).toBe('Text: Hi');
+  });
+
+  it('keeps an inverted section only when its variable is blank', () => {
+    const template = '{{^language}}Reply in English.{{/language}}';
+
+    expect(renderPromptTemplate(template, {})).toBe('Reply in English.');
+    expect(renderPromptTemplate(template, { language: 'de' })).toBe('');
+  });
+});
+
+describe('getPromptVariables', () => {
+  it('splits the text at the cursor and exposes the field', () => {
+    const variables = getPromptVariables({
+      text: 'Hello world',
+      cursorPosition: 5,
+      context: 'greeting',
+      field: { name: 'subject', label: 'Subject', placeholder: 'Say hi', language: 'en' },
+    });
+
+    expect(variables).toEqual({
+      before: 'Hello',
+      after: ' world',
+      context: 'greeting',
+      language: 'en',
+      fieldName: 'subject',
+      fieldLabel: 'Subject',
+      placeholder: 'Say hi',
+    });
+  });
+
+  it('prefers explicit prefix and suffix', () => {
+    const variables = getPromptVariables({ text: 'ignored', cursorPosition: 0, prefix: 'before', suffix: 'after' });
+
+    expect(variables.before).toBe('before');
+    expect(variables.after).toBe('after');
+  });
+});
+
+describe('getCompletionField', () => {
+  it('maps input attributes to field metadata', () => {
+    expect(getCompletionField({ name: 'bio', 'aria-label': 'Biography', placeholder: 'About you', lang: 'fr' })).toEqual({
+      name: 'bio',
+      label: 'Biography',
+      placeholder: 'About you',
+      language: 'fr',
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getRetryDelay, isRetryableStatus, parseRetryAfter, resolveRetryPolicy, retryAsync } from '../retry';
+
+const noDelay = { maxAttempts: 3, initialDelayMs: 0, jitter: false };
+
+function httpError(status: number): Error & { status: number } {
+  return Object.assign(new Error(`HTTP ${status}`), { status });
+}
+
+describe('resolveRetryPolicy', () => {
+  it('attempts once without a policy', () => {
+    expect(resolveRetryPolicy().maxAttempts).toBe(1);
+  });
+
+  it('fills missing fields from the defaults', () => {
+    expect(resolveRetryPolicy({ maxAttempts: 5 })).toEqual({
+      maxAttempts: 5,
+      initialDelayMs: 500,
+      maxDelayMs: 10000,
+      backoffFactor: 2,
+      jitter: true,
+    });
+  });
+});
+
+describe('isRetryableStatus', () => {
+  it('retries rate limits, timeouts and server errors', () => {
+    expect([408, 429, 500, 503].map(isRetryableStatus)).toEqual([true, true, true, true]);
+  });
+
+  it('does not retry other client errors', () => {
+    expect([400, 401, 403, 404].map(isRetryableStatus)).toEqual([false, false, false, false]);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+  });
+
+  it('reads an HTTP date', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT')).toBe(5000);
+    vi.useRealTimers();
+  });
+
+  it('ignores missing and invalid values', () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('getRetryDelay', () => {
+  const policy = resolveRetryPolicy({ initialDelayMs: 100, maxDelayMs: 1000, jitter: false });
+
+  it('backs off exponentially up to the maximum', () => {
+    expect([1, 2, 3, 5].map((attempt) => getRetryDelay(attempt, policy))).toEqual([100, 200, 400, 1000]);
+  });
+
+  it('stays below the backoff delay with jitter', () => {
+    const delay = getRetryDelay(3, { ...policy, jitter: true });
+    expect(delay).toBeGreaterThanOrEqual(0);
+    expect(delay).toBeLessThan(400);
+  });
+});
+
+describe('retryAsync', () => {
+  it('retries until the operation succeeds', async () => {
+    const operation = vi.fn().mockRejectedValueOnce(httpError(503)).mockResolvedValueOnce('ok');
+
+    await expect(retryAsync(operation, noDelay)).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const operation = vi.fn().mockRejectedValue(httpError(500));
+
+    await expect(retryAsync(operation, noDelay)).rejects.toThrow('HTTP 500');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry non-retryable statuses', async () => {
+    const operation = vi.fn().mockRejectedValue(httpError(401));
+
+    await expect(retryAsync(operation, noDelay)).rejects.toThrow('HTTP 401');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const operation = vi.fn().mockImplementation(async () => {
+      controller.abort();
+      throw httpError(503);
+    });
+
+    await expect(retryAsync(operation, noDelay, controller.signal)).rejects.toThrow('HTTP 503');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
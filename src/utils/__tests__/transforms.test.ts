@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import type { AIProvider, CompletionRequest } from '../../types';
+import {
+  applyCompletionTransforms,
+  cutAtStopBoundary,
+  normalizeLeadingWhitespace,
+  previewStreamedCompletion,
+  processStreamedCompletion,
+  stripCompletionPrefix,
+  stripWrappingQuotes,
+  trimOverlapAfter,
+  trimOverlapBefore,
+} from '../transforms';
+import type { CompletionTransformContext } from '../transforms';
+
+function context(before: string, after = ''): CompletionTransformContext {
+  return { before, after, request: { text: before + after, cursorPosition: before.length } };
+}
+
+const request = (before: string, after = ''): CompletionRequest => ({
+  text: before + after,
+  cursorPosition: before.length,
+});
+
+const pipelineProvider = {
+  postProcess: (completion: string, req: CompletionRequest) => applyCompletionTransforms(completion, req),
+} as AIProvider;
+
+describe('stripCompletionPrefix', () => {
+  it('removes a label in front of the answer', () => {
+    expect(stripCompletionPrefix('Completion: and more', context(''))).toBe('and more');
+  });
+});
+
+describe('stripWrappingQuotes', () => {
+  it('removes quotes around the whole completion', () => {
+    expect(stripWrappingQuotes('"over the hill"', context(''))).toBe('over the hill');
+  });
+
+  it('keeps quotes that belong to the text', () => {
+    expect(stripWrappingQuotes('"a" and "b"', context(''))).toBe('"a" and "b"');
+  });
+
+  it('removes a code fence', () => {
+    expect(stripWrappingQuotes('```ts\nconst a = 1;\n```', context(''))).toBe('const a = 1;');
+  });
+});
+
+describe('trimOverlapBefore', () => {
+  it('drops words repeated from before the cursor', () => {
+    expect(trimOverlapBefore('the quick brown fox', context('I saw the quick'))).toBe(' brown fox');
+  });
+
+  it('completes a partial word', () => {
+    expect(trimOverlapBefore('world peace', context('hello wor'))).toBe('ld peace');
+  });
+
+  it('keeps a completion that only starts with the same letters', () => {
+    expect(trimOverlapBefore('order', context('in or'))).toBe('order');
+  });
+
+  it('keeps a new word that starts with the last typed word', () => {
+    expect(trimOverlapBefore(' theater', context('went to the'))).toBe(' theater');
+  });
+});
+
+describe('trimOverlapAfter', () => {
+  it('drops the end that repeats the text after the cursor', () => {
+    expect(trimOverlapAfter('brown fox jumps', context('The quick ', ' jumps over'))).toBe('brown fox ');
+  });
+
+  it('trims repeated punctuation', () => {
+    expect(trimOverlapAfter('the end.', context('This is ', '.'))).toBe('the end');
+  });
+
+  it('keeps overlaps that end inside a word', () => {
+    expect(trimOverlapAfter('a jump', context('', 'jumper'))).toBe('a jump');
+  });
+});
+
+describe('cutAtStopBoundary', () => {
+  it('cuts at the first blank line by default', () => {
+    expect(cutAtStopBoundary()('first paragraph\n\nsecond', context(''))).toBe('first paragraph');
+  });
+
+  it('accepts a custom boundary', () => {
+    expect(cutAtStopBoundary(/\n/)('one line\nanother', context(''))).toBe('one line');
+  });
+});
+
+describe('normalizeLeadingWhitespace', () => {
+  it('adds a space after punctuation', () => {
+    expect(normalizeLeadingWhitespace('Next sentence', context('Done.'))).toBe(' Next sentence');
+  });
+
+  it('keeps mid-word continuations joined', () => {
+    expect(normalizeLeadingWhitespace('ld', context('wor'))).toBe('ld');
+  });
+
+  it('does not double the space the user typed', () => {
+    expect(normalizeLeadingWhitespace('  fox', context('brown '))).toBe('fox');
+  });
+
+  it('keeps the space before a following word', () => {
+    expect(normalizeLeadingWhitespace('quick ', context('The ', 'fox'))).toBe('quick ');
+  });
+});
+
+describe('streamed completions', () => {
+  it('does not trim a partial stream against the text after the cursor', () => {
+    const req = request('The quick ', 'brown fox');
+
+    // "brown" may just be the start of "brownish"; only the finished answer is trimmed
+    expect(previewStreamedCompletion(pipelineProvider, 'red and brown', req)).toBe('red and brown');
+    expect(processStreamedCompletion(pipelineProvider, 'red and brown', req)).toBe('red and ');
+  });
+
+  it('leaves wrapping quotes to the finished stream', () => {
+    const req = request('Say ');
+
+    expect(previewStreamedCompletion(pipelineProvider, '"hello', req)).toBe('"hello');
+    expect(processStreamedCompletion(pipelineProvider, '"hello"', req)).toBe('hello');
+  });
+
+  it('only trims for providers without a pipeline', () => {
+    const provider = {} as AIProvider;
+
+    expect(previewStreamedCompletion(provider, '  text  ', request(''))).toBe('text');
+    expect(processStreamedCompletion(provider, '  text  ', request(''))).toBe('text');
+  });
+});
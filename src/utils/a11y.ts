@@ -0,0 +1,35 @@
+import type { CompletionDisplayMode } from '../types';
+
+/** Text for the live region when suggestions appear */
+export function getSuggestionAnnouncement(
+  displayMode: CompletionDisplayMode,
+  suggestions: string[],
+  activeIndex = 0
+): string {
+  if (suggestions.length === 0) return '';
+
+  if (displayMode === 'popup') {
+    return suggestions.length === 1 ? '1 suggestion available' : `${suggestions.length} suggestions available`;
+  }
+
+  const position = suggestions.length > 1 ? ` ${activeIndex + 1} of ${suggestions.length}` : '';
+  return `Suggestion${position}: ${suggestions[activeIndex] ?? ''}`;
+}
+
+/** Id of a suggestion list option, for `aria-activedescendant` */
+export function getOptionId(listId: string, index: number): string {
+  return `${listId}-option-${index}`;
+}
+
+/** Describes the keys that act on a suggestion, for `aria-describedby` */
+export function getKeyHints(
+  displayMode: CompletionDisplayMode,
+  keys: { acceptKey: string; dismissKey: string; acceptWordKey?: string }
+): string {
+  if (displayMode === 'popup') {
+    return `When suggestions are shown, use the up and down arrow keys to choose one, Enter or ${keys.acceptKey} to insert it, and ${keys.dismissKey} to close the list.`;
+  }
+
+  const word = keys.acceptWordKey ? `, ${keys.acceptWordKey} to accept its next word,` : '';
+  return `When a suggestion is available, press ${keys.acceptKey} to accept it${word} or ${keys.dismissKey} to dismiss it.`;
+}
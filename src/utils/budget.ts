@@ -0,0 +1,147 @@
+import type { BudgetOptions, BudgetStatus, CompletionUsage } from '../types';
+
+interface BudgetUsage {
+  period: string;
+  calls: number;
+  tokens: number;
+  cost: number;
+}
+
+type BudgetListener = (status: BudgetStatus) => void;
+
+function today(): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+export class CompletionBudget {
+  private options: BudgetOptions;
+  private usage: BudgetUsage;
+  private notified = false;
+  private listeners = new Set<BudgetListener>();
+
+  constructor(options: BudgetOptions = {}) {
+    this.options = options;
+    this.usage = this.load();
+  }
+
+  // Usage of a daily budget lives in localStorage so it survives reloads and is shared across tabs
+  private get storageKey(): string | null {
+    if (this.options.period !== 'day' || typeof localStorage === 'undefined') return null;
+    return this.options.storageKey || 'smart-textarea-budget';
+  }
+
+  private emptyUsage(): BudgetUsage {
+    return { period: this.options.period === 'day' ? today() : 'session', calls: 0, tokens: 0, cost: 0 };
+  }
+
+  private load(): BudgetUsage {
+    const key = this.storageKey;
+    if (!key) return this.usage ?? this.emptyUsage();
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(key) || 'null') as BudgetUsage | null;
+      if (stored && stored.period === today()) return stored;
+    } catch {
+      // Corrupt or inaccessible storage starts a fresh day
+    }
+
+    this.notified = false;
+    return this.emptyUsage();
+  }
+
+  private save(): void {
+    const key = this.storageKey;
+    if (!key) return;
+
+    try {
+      localStorage.setItem(key, JSON.stringify(this.usage));
+    } catch {
+      // Storage full or disabled: keep counting in memory
+    }
+  }
+
+  estimateCost(usage: CompletionUsage | undefined, model: string | undefined): number {
+    const { pricing } = this.options;
+    if (!usage || !model || !pricing) return 0;
+
+    // Exact model match first, then the longest configured prefix (e.g. dated model versions)
+    const key = pricing[model]
+      ? model
+      : Object.keys(pricing)
+          .filter((name) => model.startsWith(name))
+          .sort((a, b) => b.length - a.length)[0];
+
+    const price = key ? pricing[key] : undefined;
+    if (!price) return 0;
+
+    return (
+      (usage.promptTokens / 1_000_000) * price.inputPerMillion +
+      (usage.completionTokens / 1_000_000) * price.outputPerMillion
+    );
+  }
+
+  /** Replaces the limits and pricing; the usage counted so far is kept */
+  setOptions(options: BudgetOptions): void {
+    this.options = options;
+    this.usage = this.load();
+    // Raised limits can be exceeded, and notified, again
+    if (!this.getStatus().exceeded) this.notified = false;
+  }
+
+  getStatus(): BudgetStatus {
+    this.usage = this.load();
+    const { maxCalls, maxTokens, maxCost } = this.options;
+    const { calls, tokens, cost } = this.usage;
+
+    let exceededBy: BudgetStatus['exceededBy'];
+    if (maxCalls !== undefined && calls >= maxCalls) exceededBy = 'calls';
+    else if (maxTokens !== undefined && tokens >= maxTokens) exceededBy = 'tokens';
+    else if (maxCost !== undefined && cost >= maxCost) exceededBy = 'cost';
+
+    return { calls, tokens, cost, exceeded: exceededBy !== undefined, exceededBy };
+  }
+
+  /** Returns false once the budget is exhausted, notifying listeners the first time */
+  canRequest(): boolean {
+    const status = this.getStatus();
+    if (status.exceeded) this.notify(status);
+    return !status.exceeded;
+  }
+
+  record(usage: CompletionUsage | undefined, model?: string): BudgetStatus {
+    this.usage = this.load();
+    this.usage = {
+      ...this.usage,
+      calls: this.usage.calls + 1,
+      tokens: this.usage.tokens + (usage?.totalTokens ?? 0),
+      cost: this.usage.cost + this.estimateCost(usage, model),
+    };
+    this.save();
+
+    const status = this.getStatus();
+    if (status.exceeded) this.notify(status);
+    return status;
+  }
+
+  reset(): void {
+    this.usage = this.emptyUsage();
+    this.notified = false;
+    this.save();
+  }
+
+  subscribe(listener: BudgetListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(status: BudgetStatus): void {
+    if (this.notified) return;
+    this.notified = true;
+    this.listeners.forEach((listener) => listener(status));
+  }
+}
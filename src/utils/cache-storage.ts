@@ -0,0 +1,171 @@
+export interface CacheEntry {
+  completion: string;
+  timestamp: number;
+  lastAccessed?: number;
+  provider?: string;
+  model?: string;
+}
+
+/**
+ * Where `CompletionCache` keeps its entries. All methods are async so
+ * storage backed by IndexedDB or a server can be plugged in.
+ */
+export interface CacheStorageAdapter {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  entries(): Promise<Array<[string, CacheEntry]>>;
+}
+
+export class MemoryCacheStorage implements CacheStorageAdapter {
+  private store: Map<string, CacheEntry> = new Map();
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return this.store.get(key);
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.store.set(key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.store.clear();
+  }
+
+  async entries(): Promise<Array<[string, CacheEntry]>> {
+    return Array.from(this.store.entries());
+  }
+}
+
+export class LocalStorageCacheStorage implements CacheStorageAdapter {
+  private prefix: string;
+
+  constructor(prefix = 'smart-textarea-cache:') {
+    this.prefix = prefix;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const raw = localStorage.getItem(this.prefix + key);
+    if (!raw) return undefined;
+
+    try {
+      return JSON.parse(raw) as CacheEntry;
+    } catch {
+      localStorage.removeItem(this.prefix + key);
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    localStorage.setItem(this.prefix + key, JSON.stringify(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    localStorage.removeItem(this.prefix + key);
+  }
+
+  async clear(): Promise<void> {
+    this.storageKeys().forEach((key) => localStorage.removeItem(key));
+  }
+
+  async entries(): Promise<Array<[string, CacheEntry]>> {
+    const result: Array<[string, CacheEntry]> = [];
+
+    for (const storageKey of this.storageKeys()) {
+      const key = storageKey.slice(this.prefix.length);
+      const entry = await this.get(key);
+      if (entry) result.push([key, entry]);
+    }
+
+    return result;
+  }
+
+  private storageKeys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(this.prefix)) keys.push(key);
+    }
+    return keys;
+  }
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class IndexedDBCacheStorage implements CacheStorageAdapter {
+  private dbName: string;
+  private storeName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName = 'smart-textarea', storeName = 'completions') {
+    this.dbName = dbName;
+    this.storeName = storeName;
+  }
+
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Allow a later call to retry if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.getDatabase();
+    return db.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const store = await this.getStore('readonly');
+    return promisifyRequest<CacheEntry | undefined>(store.get(key));
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisifyRequest(store.put(entry, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisifyRequest(store.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisifyRequest(store.clear());
+  }
+
+  async entries(): Promise<Array<[string, CacheEntry]>> {
+    const store = await this.getStore('readonly');
+    const [keys, values] = await Promise.all([
+      promisifyRequest(store.getAllKeys()),
+      promisifyRequest<CacheEntry[]>(store.getAll()),
+    ]);
+
+    return keys.map((key, index) => [String(key), values[index]]);
+  }
+}
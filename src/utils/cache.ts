@@ -1,79 +1,289 @@
-interface CacheEntry {
-  completion: string;
-  timestamp: number;
+import { MemoryCacheStorage } from './cache-storage';
+import type { CacheEntry, CacheStorageAdapter } from './cache-storage';
+import type { CompletionField, PromptTemplate, ServedBy } from '../types';
+
+/** What a cached completion depends on besides the text itself */
+export interface CacheScope {
+  provider?: string;
+  /** Base URL of the backend, or the provider name when it has none */
+  endpoint?: string;
+  model?: string;
+  systemPrompt?: string;
+  context?: string;
+  promptTemplate?: PromptTemplate;
+  field?: CompletionField;
+  /** Keeps the entries of different fields apart */
+  fieldId?: string;
+}
+
+/** Scope of the backend that serves a request, e.g. a member of a fallback chain */
+export function getProviderScope(provider: ServedBy): CacheScope {
+  return { provider: provider.type, endpoint: provider.baseUrl ?? provider.name, model: provider.model };
+}
+
+// Entries kept in memory die with the page anyway; persisted ones are worth keeping for a day
+const MEMORY_TTL_MS = 60_000;
+const PERSISTENT_TTL_MS = 24 * 60 * 60 * 1000;
+
+// How much of the text after the cursor a cache entry is tied to
+const SUFFIX_KEY_LENGTH = 100;
+
+// FNV-1a, to keep long prompts and context out of the storage keys
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  terminal: boolean;
+}
+
+// Character trie over cache keys, so finding every cached key that is a
+// prefix of the current one costs O(key length) instead of O(entries)
+class KeyTrie {
+  private root: TrieNode = { children: new Map(), terminal: false };
+
+  insert(key: string): void {
+    let node = this.root;
+    for (const char of key) {
+      let child = node.children.get(char);
+      if (!child) {
+        child = { children: new Map(), terminal: false };
+        node.children.set(char, child);
+      }
+      node = child;
+    }
+    node.terminal = true;
+  }
+
+  delete(key: string): void {
+    const path: Array<[TrieNode, string]> = [];
+    let node: TrieNode | undefined = this.root;
+
+    for (const char of key) {
+      path.push([node, char]);
+      node = node.children.get(char);
+      if (!node) return;
+    }
+
+    node.terminal = false;
+
+    // Prune branches that no longer lead to a key
+    for (let i = path.length - 1; i >= 0; i--) {
+      const [parent, char] = path[i];
+      const child = parent.children.get(char)!;
+      if (child.terminal || child.children.size > 0) break;
+      parent.children.delete(char);
+    }
+  }
+
+  /** Stored keys that are prefixes of `key`, longest first */
+  prefixesOf(key: string): string[] {
+    const prefixes: string[] = [];
+    let node: TrieNode | undefined = this.root;
+    let prefix = '';
+
+    for (const char of key) {
+      node = node.children.get(char);
+      if (!node) break;
+      prefix += char;
+      if (node.terminal) prefixes.push(prefix);
+    }
+
+    return prefixes.reverse();
+  }
+
+  clear(): void {
+    this.root = { children: new Map(), terminal: false };
+  }
 }
 
 export class CompletionCache {
-  private cache: Map<string, CacheEntry> = new Map();
+  private storage: CacheStorageAdapter;
   private maxSize: number;
   private ttl: number; // Time to live in ms
 
-  constructor(maxSize = 50, ttlMs = 60000) {
+  // In-memory index of the stored keys: a trie for prefix lookups and a Map
+  // kept in least-recently-used order for eviction
+  private trie = new KeyTrie();
+  private recency: Map<string, number> = new Map();
+  private hydration: Promise<void> | null = null;
+
+  constructor(maxSize = 50, ttlMs?: number, storage: CacheStorageAdapter = new MemoryCacheStorage()) {
     this.maxSize = maxSize;
-    this.ttl = ttlMs;
+    this.ttl = ttlMs ?? (storage instanceof MemoryCacheStorage ? MEMORY_TTL_MS : PERSISTENT_TTL_MS);
+    this.storage = storage;
   }
 
-  private generateKey(text: string, cursorPosition: number): string {
+  // Entries from different backends, models, prompts, templates, contexts or fields never share a key,
+  // and neither do entries computed for a different text after the cursor.
+  // The text before the cursor comes last so prefix lookups stay within one scope.
+  private generateKey(text: string, cursorPosition: number, scope: CacheScope = {}): string {
     // Sadece son 200 karakteri key olarak kullan
     const relevantText = text.substring(Math.max(0, cursorPosition - 200), cursorPosition);
-    return relevantText.trim();
+    const suffix = text.substring(cursorPosition, cursorPosition + SUFFIX_KEY_LENGTH).trim();
+    const scopeHash = hashString(
+      [scope.endpoint, scope.systemPrompt, scope.context, scope.fieldId, JSON.stringify([scope.promptTemplate, scope.field])]
+        .map((part) => part ?? '')
+        .join('\u0000')
+    );
+    const suffixHash = suffix ? hashString(suffix) : '';
+    return `${scope.provider ?? ''}|${scope.model ?? ''}|${scopeHash}|${suffixHash}|${relevantText.trim()}`;
   }
 
-  get(text: string, cursorPosition: number): string | null {
-    const key = this.generateKey(text, cursorPosition);
-    const entry = this.cache.get(key);
+  private isExpired(entry: CacheEntry): boolean {
+    return Date.now() - entry.timestamp > this.ttl;
+  }
 
-    if (!entry) return null;
+  // Builds the index from storage once, so persisted entries are found after a reload
+  private hydrate(): Promise<void> {
+    if (!this.hydration) {
+      this.hydration = (async () => {
+        let entries: Array<[string, CacheEntry]>;
+        try {
+          entries = await this.storage.entries();
+        } catch {
+          // A failing storage backend degrades to cache misses instead of breaking completions
+          entries = [];
+        }
+
+        entries
+          .filter(([, entry]) => !this.isExpired(entry))
+          .sort(([, a], [, b]) => (a.lastAccessed ?? a.timestamp) - (b.lastAccessed ?? b.timestamp))
+          .forEach(([key, entry]) => this.index(key, entry.lastAccessed ?? entry.timestamp));
+      })();
+    }
+
+    return this.hydration;
+  }
+
+  private index(key: string, lastAccessed: number): void {
+    if (!this.recency.has(key)) {
+      this.trie.insert(key);
+    }
+    // Re-inserting moves the key to the most recently used end
+    this.recency.delete(key);
+    this.recency.set(key, lastAccessed);
+  }
+
+  private async remove(key: string): Promise<void> {
+    this.recency.delete(key);
+    this.trie.delete(key);
+    await this.storage.delete(key).catch(() => {});
+  }
 
-    // Check TTL
-    if (Date.now() - entry.timestamp > this.ttl) {
-      this.cache.delete(key);
+  // Reads an entry by key, dropping it if it expired or vanished from storage
+  private async read(key: string): Promise<CacheEntry | null> {
+    let entry: CacheEntry | undefined;
+    try {
+      entry = await this.storage.get(key);
+    } catch {
       return null;
     }
 
+    if (!entry || this.isExpired(entry)) {
+      await this.remove(key);
+      return null;
+    }
+
+    return entry;
+  }
+
+  // Marks a cache hit as the most recently used entry
+  private touch(key: string, entry: CacheEntry): void {
+    const lastAccessed = Date.now();
+    this.index(key, lastAccessed);
+    // Persist the access time so recency survives reloads; failures only cost LRU accuracy
+    this.storage.set(key, { ...entry, lastAccessed }).catch(() => {});
+  }
+
+  async get(text: string, cursorPosition: number, scope?: CacheScope): Promise<string | null> {
+    await this.hydrate();
+    const key = this.generateKey(text, cursorPosition, scope);
+    const entry = await this.read(key);
+    if (!entry) return null;
+
+    this.touch(key, entry);
     return entry.completion;
   }
 
-  set(text: string, cursorPosition: number, completion: string): void {
-    const key = this.generateKey(text, cursorPosition);
+  async set(text: string, cursorPosition: number, completion: string, scope?: CacheScope): Promise<void> {
+    await this.hydrate();
+    const key = this.generateKey(text, cursorPosition, scope);
 
-    // Evict oldest if at capacity
-    if (this.cache.size >= this.maxSize) {
-      const oldestKey = this.cache.keys().next().value;
-      if (oldestKey) {
-        this.cache.delete(oldestKey);
-      }
+    // Evict least recently used entries while at capacity
+    while (!this.recency.has(key) && this.recency.size >= this.maxSize) {
+      const leastRecent = this.recency.keys().next().value;
+      if (leastRecent === undefined) break;
+      await this.remove(leastRecent);
+    }
+
+    const now = Date.now();
+    this.index(key, now);
+
+    try {
+      await this.storage.set(key, {
+        completion,
+        timestamp: now,
+        lastAccessed: now,
+        provider: scope?.provider,
+        model: scope?.model,
+      });
+    } catch {
+      // Storage full or unavailable: skip caching this completion
+      this.recency.delete(key);
+      this.trie.delete(key);
     }
+  }
 
-    this.cache.set(key, {
-      completion,
-      timestamp: Date.now(),
-    });
+  async clear(): Promise<void> {
+    this.recency.clear();
+    this.trie.clear();
+    await this.storage.clear();
   }
 
-  clear(): void {
-    this.cache.clear();
+  /** Removes every entry the predicate matches, e.g. all entries of one model */
+  async invalidate(predicate: (entry: CacheEntry, key: string) => boolean): Promise<number> {
+    await this.hydrate();
+
+    let entries: Array<[string, CacheEntry]>;
+    try {
+      entries = await this.storage.entries();
+    } catch {
+      return 0;
+    }
+
+    const matching = entries.filter(([key, entry]) => predicate(entry, key));
+    await Promise.all(matching.map(([key]) => this.remove(key)));
+    return matching.length;
   }
 
   // Prefix-based lookup for partial matches
-  getByPrefix(text: string, cursorPosition: number): string | null {
-    const key = this.generateKey(text, cursorPosition);
+  async getByPrefix(text: string, cursorPosition: number, scope?: CacheScope): Promise<string | null> {
+    await this.hydrate();
+    const key = this.generateKey(text, cursorPosition, scope);
 
     // Check exact match first
-    const exact = this.get(text, cursorPosition);
+    const exact = await this.get(text, cursorPosition, scope);
     if (exact) return exact;
 
-    // Check if any cached completion starts with what user is typing
-    for (const [cachedKey, entry] of this.cache.entries()) {
-      if (Date.now() - entry.timestamp > this.ttl) continue;
+    // Longest cached prefix first: its completion needs the least trimming
+    for (const cachedKey of this.trie.prefixesOf(key)) {
+      if (cachedKey === key) continue;
 
-      // If cached key is a prefix of current key, and we have a completion
-      if (key.startsWith(cachedKey) && entry.completion) {
-        // Return the relevant part of the completion
-        const extraTyped = key.slice(cachedKey.length);
-        if (entry.completion.startsWith(extraTyped)) {
-          return entry.completion.slice(extraTyped.length);
-        }
+      const entry = await this.read(cachedKey);
+      if (!entry?.completion) continue;
+
+      // Return the relevant part of the completion
+      const extraTyped = key.slice(cachedKey.length);
+      if (entry.completion.startsWith(extraTyped)) {
+        this.touch(cachedKey, entry);
+        return entry.completion.slice(extraTyped.length);
       }
     }
 
@@ -0,0 +1,89 @@
+export interface CaretCoordinates {
+  /** Offset from the element's top-left border corner, after scrolling */
+  top: number;
+  left: number;
+  /** Line height at the caret */
+  height: number;
+}
+
+// Properties that affect where text wraps and how tall lines are
+const MIRRORED_PROPERTIES = [
+  'direction',
+  'boxSizing',
+  'width',
+  'height',
+  'overflowX',
+  'overflowY',
+  'borderTopWidth',
+  'borderRightWidth',
+  'borderBottomWidth',
+  'borderLeftWidth',
+  'borderStyle',
+  'paddingTop',
+  'paddingRight',
+  'paddingBottom',
+  'paddingLeft',
+  'fontStyle',
+  'fontVariant',
+  'fontWeight',
+  'fontStretch',
+  'fontSize',
+  'lineHeight',
+  'fontFamily',
+  'textAlign',
+  'textTransform',
+  'textIndent',
+  'letterSpacing',
+  'wordSpacing',
+  'tabSize',
+] as const;
+
+/**
+ * Measures where `position` in a textarea or input is drawn, by laying the
+ * text out again in an invisible mirror element with the same styles.
+ */
+export function getCaretCoordinates(
+  element: HTMLTextAreaElement | HTMLInputElement,
+  position: number
+): CaretCoordinates {
+  const isInput = element instanceof HTMLInputElement;
+  const computed = window.getComputedStyle(element);
+  const mirror = document.createElement('div');
+
+  for (const property of MIRRORED_PROPERTIES) {
+    mirror.style[property] = computed[property];
+  }
+
+  mirror.style.position = 'absolute';
+  mirror.style.visibility = 'hidden';
+  mirror.style.top = '0';
+  mirror.style.left = '-9999px';
+  mirror.style.overflow = 'hidden';
+  mirror.style.whiteSpace = isInput ? 'pre' : 'pre-wrap';
+  mirror.style.wordWrap = isInput ? 'normal' : 'break-word';
+
+  mirror.textContent = element.value.substring(0, position);
+
+  // The marker needs content to get a height; it is never shown
+  const marker = document.createElement('span');
+  marker.textContent = element.value.substring(position) || '.';
+  mirror.appendChild(marker);
+
+  document.body.appendChild(mirror);
+
+  const lineHeight = parseFloat(computed.lineHeight);
+  const coordinates: CaretCoordinates = {
+    top: marker.offsetTop + parseFloat(computed.borderTopWidth) - element.scrollTop,
+    left: marker.offsetLeft + parseFloat(computed.borderLeftWidth) - element.scrollLeft,
+    height: Number.isNaN(lineHeight) ? parseFloat(computed.fontSize) * 1.2 : lineHeight,
+  };
+
+  document.body.removeChild(mirror);
+
+  // A single-line input centers its text vertically
+  if (isInput) {
+    coordinates.top = (element.clientHeight - coordinates.height) / 2 + parseFloat(computed.borderTopWidth);
+  }
+
+  return coordinates;
+}
@@ -0,0 +1,80 @@
+import type { SharedContextOptions } from '../types';
+
+interface RegisteredField {
+  label?: string;
+  getValue: () => string;
+}
+
+/** Joins non-blank context parts with blank lines */
+export function mergeContext(...parts: Array<string | undefined>): string | undefined {
+  const merged = parts.filter((part): part is string => Boolean(part?.trim())).join('\n\n');
+  return merged || undefined;
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength ? value.slice(0, maxLength) + '...' : value;
+}
+
+/**
+ * The named fields inside one `AutocompleteProvider`. A completion for one
+ * field gets the current content of the others as labelled context.
+ */
+export class FieldRegistry {
+  private options: SharedContextOptions;
+  private fields = new Map<string, RegisteredField>();
+
+  constructor(options: SharedContextOptions = {}) {
+    this.options = options;
+  }
+
+  /** Registers a field and returns a function that removes it again */
+  register(name: string, getValue: () => string, label?: string): () => void {
+    const field: RegisteredField = { label, getValue };
+    this.fields.set(name, field);
+
+    return () => {
+      // A remounted field with the same name may have replaced this one
+      if (this.fields.get(name) === field) {
+        this.fields.delete(name);
+      }
+    };
+  }
+
+  getFieldNames(): string[] {
+    return Array.from(this.fields.keys());
+  }
+
+  private includes(name: string, target?: string): boolean {
+    const { include, exclude } = this.options;
+
+    if (name === target) return false;
+    if (exclude?.includes(name)) return false;
+    if (typeof include === 'function') return include(name, target);
+    if (include) return include.includes(name);
+    return true;
+  }
+
+  /** Labelled content of every other included field, within the size limits */
+  getContext(target?: string): string | undefined {
+    const { maxFieldLength = 1000, maxLength = 4000, labels = {} } = this.options;
+    const sections: string[] = [];
+    let length = 0;
+
+    for (const [name, field] of this.fields) {
+      if (!this.includes(name, target)) continue;
+
+      const value = field.getValue().trim();
+      if (!value) continue;
+
+      const remaining = maxLength - length;
+      if (remaining <= 0) break;
+
+      const label = labels[name] ?? field.label ?? name;
+      const section = truncate(`${label}:\n${truncate(value, maxFieldLength)}`, remaining);
+      sections.push(section);
+      length += section.length + 2;
+    }
+
+    return mergeContext(...sections);
+  }
+}
@@ -1,5 +1,28 @@
+import type { CompletionAcceptUnit } from '../types';
+
 export { debounce } from './debounce';
 export { CompletionCache, completionCache } from './cache';
+export type { CacheScope } from './cache';
+export { MemoryCacheStorage, LocalStorageCacheStorage, IndexedDBCacheStorage } from './cache-storage';
+export type { CacheEntry, CacheStorageAdapter } from './cache-storage';
+export { matchesKeyBinding, parseKeyBinding } from './keys';
+export { retryAsync, isRetryableStatus, parseRetryAfter } from './retry';
+export { CompletionBudget } from './budget';
+export { FieldRegistry, mergeContext } from './fields';
+export {
+  applyCompletionTransforms,
+  defaultCompletionTransforms,
+  stripCompletionPrefix,
+  stripWrappingQuotes,
+  trimOverlapBefore,
+  trimOverlapAfter,
+  cutAtStopBoundary,
+  normalizeLeadingWhitespace,
+} from './transforms';
+export type { CompletionTransform, CompletionTransformContext } from './transforms';
+export { renderPromptTemplate } from './prompt';
+export type { PromptVariables } from './prompt';
+export type { KeyBinding } from './keys';
 
 export function shouldTriggerCompletion(
   text: string,
@@ -41,6 +64,15 @@ export function shouldTriggerCompletion(
   return false;
 }
 
+/**
+ * Returns the leading part of a completion up to the end of the next word
+ * or line, for accepting a suggestion piece by piece.
+ */
+export function getPartialCompletion(completion: string, unit: CompletionAcceptUnit): string {
+  const match = unit === 'word' ? completion.match(/^\s*\S+/) : completion.match(/^\n?[^\n]*/);
+  return match ? match[0] : completion;
+}
+
 export function getTextSegments(text: string, cursorPosition: number): {
   before: string;
   after: string;
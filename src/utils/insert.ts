@@ -0,0 +1,25 @@
+/**
+ * Inserts `text` at `position` the way typing would, so the browser records
+ * it as one undoable edit and fires a regular `input` event. Returns false
+ * where the browser does not support it; callers then set the value
+ * themselves, which loses the undo history.
+ */
+export function insertTextUndoable(
+  element: HTMLTextAreaElement | HTMLInputElement,
+  text: string,
+  position: number
+): boolean {
+  if (typeof document === 'undefined' || typeof document.execCommand !== 'function') {
+    return false;
+  }
+
+  element.focus();
+  element.setSelectionRange(position, position);
+
+  // execCommand is deprecated, but it is still the only way to add to the native undo stack
+  try {
+    return document.execCommand('insertText', false, text);
+  } catch {
+    return false;
+  }
+}
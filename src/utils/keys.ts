@@ -0,0 +1,73 @@
+export interface KeyBinding {
+  key: string;
+  ctrl: boolean;
+  alt: boolean;
+  shift: boolean;
+  meta: boolean;
+}
+
+const CODE_BY_CHAR: Record<string, string> = {
+  '[': 'BracketLeft',
+  ']': 'BracketRight',
+  ',': 'Comma',
+  '.': 'Period',
+  '/': 'Slash',
+  ';': 'Semicolon',
+  "'": 'Quote',
+  '-': 'Minus',
+  '=': 'Equal',
+  '`': 'Backquote',
+  '\\': 'Backslash',
+};
+
+// Parses bindings like "Alt+]" or "Ctrl+Shift+ArrowRight"
+export function parseKeyBinding(binding: string): KeyBinding {
+  const parts = binding.split('+');
+  // A trailing "+" means the plus key itself, e.g. "Ctrl++"
+  const key = binding.endsWith('++') ? '+' : parts[parts.length - 1];
+  const modifiers = parts.slice(0, binding.endsWith('++') ? -2 : -1).map((part) => part.toLowerCase());
+
+  return {
+    key,
+    ctrl: modifiers.includes('ctrl') || modifiers.includes('control'),
+    alt: modifiers.includes('alt') || modifiers.includes('option'),
+    shift: modifiers.includes('shift'),
+    meta: modifiers.includes('meta') || modifiers.includes('cmd'),
+  };
+}
+
+function getCodeForKey(key: string): string | null {
+  if (CODE_BY_CHAR[key]) return CODE_BY_CHAR[key];
+  if (/^[a-z]$/i.test(key)) return `Key${key.toUpperCase()}`;
+  if (/^[0-9]$/.test(key)) return `Digit${key}`;
+  return null;
+}
+
+export function matchesKeyBinding(
+  event: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>,
+  binding: string
+): boolean {
+  const parsed = parseKeyBinding(binding);
+
+  if (
+    event.ctrlKey !== parsed.ctrl ||
+    event.altKey !== parsed.alt ||
+    event.metaKey !== parsed.meta
+  ) {
+    return false;
+  }
+
+  // Shift changes the produced character, so it is only compared for named keys
+  const isCharacter = parsed.key.length === 1;
+  if (!isCharacter && event.shiftKey !== parsed.shift) {
+    return false;
+  }
+
+  if (event.key.toLowerCase() === parsed.key.toLowerCase()) {
+    return true;
+  }
+
+  // Alt/Option produces a different character on some layouts (e.g. "‘" for Alt+] on macOS)
+  const code = isCharacter ? getCodeForKey(parsed.key) : null;
+  return code !== null && event.code === code;
+}
@@ -0,0 +1,48 @@
+import type { CompletionField, CompletionRequest } from '../types';
+import { getRequestSegments } from './request';
+
+export type PromptVariables = Record<string, string | undefined>;
+
+/** Variables every prompt template can reference */
+export function getPromptVariables(request: CompletionRequest): PromptVariables {
+  const { prefix, suffix } = getRequestSegments(request);
+
+  return {
+    before: prefix,
+    after: suffix,
+    context: request.context,
+    language: request.field?.language,
+    fieldName: request.field?.name,
+    fieldLabel: request.field?.label,
+    placeholder: request.field?.placeholder,
+  };
+}
+
+/**
+ * Fills `{{name}}` placeholders. `{{#name}}...{{/name}}` keeps its body only
+ * when the variable is non-blank, `{{^name}}...{{/name}}` only when it is
+ * blank. Sections do not nest; unknown variables render as empty strings.
+ */
+export function renderPromptTemplate(template: string, variables: PromptVariables): string {
+  return template
+    .replace(/\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g, (_, kind: string, name: string, body: string) => {
+      const present = Boolean(variables[name]?.trim());
+      return (kind === '#') === present ? body : '';
+    })
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => variables[name] ?? '');
+}
+
+/** Field metadata from the attributes of a text input */
+export function getCompletionField(attributes: {
+  name?: string;
+  placeholder?: string;
+  lang?: string;
+  'aria-label'?: string;
+}): CompletionField {
+  return {
+    name: attributes.name,
+    label: attributes['aria-label'],
+    placeholder: attributes.placeholder,
+    language: attributes.lang,
+  };
+}
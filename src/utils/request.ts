@@ -0,0 +1,12 @@
+import type { CompletionRequest } from '../types';
+
+/**
+ * The text before and after the insertion point. Explicit `prefix`/`suffix`
+ * fields win over slicing `text` at `cursorPosition`.
+ */
+export function getRequestSegments(request: CompletionRequest): { prefix: string; suffix: string } {
+  return {
+    prefix: request.prefix ?? request.text.substring(0, request.cursorPosition),
+    suffix: request.suffix ?? request.text.substring(request.cursorPosition),
+  };
+}
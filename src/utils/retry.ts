@@ -0,0 +1,94 @@
+import type { RetryPolicy } from '../types';
+
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 10000,
+  backoffFactor: 2,
+  jitter: true,
+};
+
+// Without a policy a request is attempted exactly once
+export function resolveRetryPolicy(policy?: RetryPolicy): Required<RetryPolicy> {
+  if (!policy) {
+    return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  }
+
+  return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+// Rate limits, timeouts and server errors are worth another attempt; other 4xx are not
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with "full jitter"
+export function getRetryDelay(attempt: number, policy: Required<RetryPolicy>): number {
+  const delay = Math.min(policy.maxDelayMs, policy.initialDelayMs * policy.backoffFactor ** (attempt - 1));
+  return policy.jitter ? Math.random() * delay : delay;
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof Error && err.name === 'AbortError';
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs an async operation under a retry policy. Errors carrying a non-retryable
+ * HTTP `status` and aborted operations are never retried.
+ */
+export async function retryAsync<T>(
+  operation: () => Promise<T>,
+  policy?: RetryPolicy,
+  signal?: AbortSignal
+): Promise<T> {
+  const resolved = resolveRetryPolicy(policy);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (err) {
+      const status = (err as { status?: unknown })?.status;
+      const retryable = typeof status !== 'number' || isRetryableStatus(status);
+
+      if (!retryable || signal?.aborted || isAbortError(err) || attempt >= resolved.maxAttempts) {
+        throw err;
+      }
+
+      await sleep(getRetryDelay(attempt, resolved), signal);
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import type { AIProvider, CompletionRequest } from '../types';
+import { getRequestSegments } from './request';
+
+export interface CompletionTransformContext {
+  before: string;
+  after: string;
+  request: CompletionRequest;
+}
+
+export type CompletionTransform = (completion: string, context: CompletionTransformContext) => string;
+
+// Overlaps shorter than this are only trimmed when they are punctuation
+const MIN_OVERLAP = 3;
+const MAX_OVERLAP = 200;
+
+const QUOTE_PAIRS: Array<[string, string]> = [
+  ['"', '"'],
+  ["'", "'"],
+  ['“', '”'],
+  ['‘', '’'],
+  ['`', '`'],
+];
+
+/** Removes labels like "Completion:" that models put in front of the answer */
+export const stripCompletionPrefix: CompletionTransform = (completion) =>
+  completion.replace(/^\s*(?:completion|continuation|completed text|output)\s*:\s*/i, '');
+
+/** Removes quotes or a code fence wrapped around the whole completion */
+export const stripWrappingQuotes: CompletionTransform = (completion) => {
+  const trimmed = completion.trim();
+
+  const fence = trimmed.match(/^```[\w-]*\n([\s\S]*?)\n?```$/);
+  if (fence) return fence[1];
+
+  for (const [open, close] of QUOTE_PAIRS) {
+    if (trimmed.length < 2 || !trimmed.startsWith(open) || !trimmed.endsWith(close)) continue;
+
+    const inner = trimmed.slice(open.length, -close.length);
+    // A quote inside means the quotes belong to the text, as in: "a" and "b"
+    if (!inner.includes(open) && !inner.includes(close)) {
+      return completion.slice(0, completion.indexOf(open)) + inner;
+    }
+  }
+
+  return completion;
+};
+
+/** Drops the words the model repeated from the end of the text before the cursor */
+export const trimOverlapBefore: CompletionTransform = (completion, { before }) => {
+  const leading = completion.match(/^\s*/)![0];
+  const trimmed = completion.slice(leading.length);
+  const maxLength = Math.min(trimmed.length, before.length, MAX_OVERLAP);
+  // A space after a finished word means the model started a new word, so "the" + " theater" is kept
+  const startsNewWord = leading.length > 0 && /\w$/.test(before);
+
+  for (let length = maxLength; length >= MIN_OVERLAP; length--) {
+    const tail = before.slice(-length);
+    if (!tail.trim() || !trimmed.startsWith(tail)) continue;
+
+    // Only overlaps starting at a word boundary count, so "wor" + "world" becomes "ld"
+    // but a completion merely starting with the same letters is kept
+    const start = before.length - length;
+    if (start > 0 && /\w/.test(before[start - 1]) && /\w/.test(tail[0])) continue;
+
+    if (startsNewWord && /\w/.test(trimmed[length] ?? '')) continue;
+
+    return trimmed.slice(length);
+  }
+
+  return completion;
+};
+
+/** Drops the end of the completion that duplicates the text after the cursor */
+export const trimOverlapAfter: CompletionTransform = (completion, { after }) => {
+  const next = after.trimStart();
+  if (!next) return completion;
+
+  const trimmed = completion.trimEnd();
+  const maxLength = Math.min(trimmed.length, next.length, MAX_OVERLAP);
+
+  for (let length = maxLength; length >= 1; length--) {
+    const head = next.slice(0, length);
+    if (!trimmed.endsWith(head)) continue;
+
+    const isPunctuation = /^[^\w\s]+$/.test(head);
+    if (length < MIN_OVERLAP && !isPunctuation) continue;
+
+    // The overlap has to end where a word of the following text ends
+    const endsAtBoundary = length === next.length || !/\w/.test(next[length]) || !/\w/.test(head[length - 1]);
+    if (!endsAtBoundary) continue;
+
+    // Whitespace before the overlap is kept to separate the completion from the following text
+    return completion.slice(0, trimmed.length - length);
+  }
+
+  return completion;
+};
+
+/** Cuts the completion at the first match of `boundary`, by default a blank line */
+export function cutAtStopBoundary(boundary: RegExp = /\n\s*\n/): CompletionTransform {
+  return (completion) => {
+    const match = boundary.exec(completion);
+    return match ? completion.slice(0, match.index) : completion;
+  };
+}
+
+/**
+ * Makes the completion join the text before the cursor with exactly the
+ * whitespace it needs. Trailing whitespace is dropped unless it separates
+ * the completion from a word that follows the cursor.
+ */
+export const normalizeLeadingWhitespace: CompletionTransform = (completion, { before, after }) => {
+  const body = completion.trim();
+  if (!body) return '';
+
+  const trailing = completion.length > completion.trimEnd().length && /^\w/.test(after) ? ' ' : '';
+
+  // Already separated by the user, or nothing to separate from
+  if (!before || /\s$/.test(before)) return body + trailing;
+
+  const leading = completion.slice(0, completion.length - completion.trimStart().length);
+  if (leading.includes('\n')) return `\n${body}${trailing}`;
+  if (leading) return ` ${body}${trailing}`;
+
+  // Models drop the space after punctuation; a word right after a word is a mid-word continuation
+  return (/[.,!?;:]$/.test(before) && /^\w/.test(body) ? ` ${body}` : body) + trailing;
+};
+
+export const defaultCompletionTransforms: CompletionTransform[] = [
+  stripCompletionPrefix,
+  stripWrappingQuotes,
+  trimOverlapBefore,
+  trimOverlapAfter,
+  cutAtStopBoundary(),
+  normalizeLeadingWhitespace,
+];
+
+export function applyCompletionTransforms(
+  completion: string,
+  request: CompletionRequest,
+  transforms: CompletionTransform[] = defaultCompletionTransforms
+): string {
+  const { prefix, suffix } = getRequestSegments(request);
+  const context: CompletionTransformContext = { before: prefix, after: suffix, request };
+
+  return transforms.reduce((result, transform) => transform(result, context), completion);
+}
+
+// Transforms that turn the start of a completion into the start of the transformed completion.
+// Quote stripping and trimming the overlap with the text after the cursor need the whole answer.
+const prefixSafeTransforms: CompletionTransform[] = [
+  stripCompletionPrefix,
+  trimOverlapBefore,
+  cutAtStopBoundary(),
+  normalizeLeadingWhitespace,
+];
+
+// Streamed text while chunks still arrive; the full pipeline runs once on the finished stream
+export function previewStreamedCompletion(provider: AIProvider, text: string, request: CompletionRequest): string {
+  return provider.postProcess ? applyCompletionTransforms(text, request, prefixSafeTransforms) : text.trim();
+}
+
+// Streamed chunks reach the hooks raw; providers without a pipeline are just trimmed
+export function processStreamedCompletion(provider: AIProvider, text: string, request: CompletionRequest): string {
+  return provider.postProcess ? provider.postProcess(text, request) : text.trim();
+}
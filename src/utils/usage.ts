@@ -0,0 +1,32 @@
+import type { CompletionUsage } from '../types';
+
+// Builds a usage record from whatever counts a backend reports
+export function createUsage(
+  promptTokens?: number,
+  completionTokens?: number,
+  totalTokens?: number
+): CompletionUsage | undefined {
+  if (promptTokens === undefined && completionTokens === undefined && totalTokens === undefined) {
+    return undefined;
+  }
+
+  const prompt = promptTokens ?? 0;
+  const completion = completionTokens ?? 0;
+
+  return {
+    promptTokens: prompt,
+    completionTokens: completion,
+    totalTokens: totalTokens ?? prompt + completion,
+  };
+}
+
+export function addUsage(a: CompletionUsage | undefined, b: CompletionUsage | undefined): CompletionUsage | undefined {
+  if (!a) return b;
+  if (!b) return a;
+
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}